@@ -1,11 +1,32 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import Tabs from "./components/Tabs";
 import TabDetail from "./components/TabDetail";
 import ClosedTabs from "./components/ClosedTabs";
+import Analytics from "./components/Analytics";
+import Workspaces from "./components/Workspaces";
+import Rules from "./components/Rules";
+import Backup from "./components/Backup";
+import Budgets from "./components/Budgets";
+import CommandPalette, { type PaletteView } from "./components/CommandPalette";
 
 function App() {
-  const [currentView, setCurrentView] = useState<'tabs' | 'closed' | 'detail'>('tabs');
+  const [currentView, setCurrentView] = useState<'tabs' | 'closed' | 'detail' | 'analytics' | 'workspaces' | 'rules' | 'backup' | 'budgets'>('tabs');
   const [selectedTabId, setSelectedTabId] = useState<number | null>(null);
+  const [showPalette, setShowPalette] = useState(false);
+  // Bumped after palette actions so the tab list reloads
+  const [tabsKey, setTabsKey] = useState(0);
+
+  // Ctrl+K / Cmd+K toggles the command palette from any view
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowPalette((shown) => !shown);
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
 
   const handleTabClick = (tabId: number) => {
     setSelectedTabId(tabId);
@@ -25,20 +46,73 @@ function App() {
     setCurrentView('tabs');
   };
 
+  const handleViewAnalytics = () => {
+    setCurrentView('analytics');
+  };
+
+  const handleViewWorkspaces = () => {
+    setCurrentView('workspaces');
+  };
+
+  const handleViewRules = () => {
+    setCurrentView('rules');
+  };
+
+  const handleViewBackup = () => {
+    setCurrentView('backup');
+  };
+
+  const handleViewBudgets = () => {
+    setCurrentView('budgets');
+  };
+
+  const handlePaletteNavigate = (view: PaletteView) => {
+    setCurrentView(view);
+    setSelectedTabId(null);
+  };
+
   return (
     <>
       {currentView === 'tabs' && (
         <Tabs 
+          key={tabsKey}
           onTabClick={handleTabClick} 
           onViewClosedTabs={handleViewClosedTabs}
+          onViewAnalytics={handleViewAnalytics}
+          onViewWorkspaces={handleViewWorkspaces}
+          onViewRules={handleViewRules}
+          onViewBackup={handleViewBackup}
+          onViewBudgets={handleViewBudgets}
         />
       )}
       {currentView === 'closed' && (
         <ClosedTabs onBack={handleBackFromClosed} />
       )}
+      {currentView === 'analytics' && (
+        <Analytics onBack={handleBackToTabs} />
+      )}
+      {currentView === 'workspaces' && (
+        <Workspaces onBack={handleBackToTabs} />
+      )}
+      {currentView === 'rules' && (
+        <Rules onBack={handleBackToTabs} />
+      )}
+      {currentView === 'backup' && (
+        <Backup onBack={handleBackToTabs} />
+      )}
+      {currentView === 'budgets' && (
+        <Budgets onBack={handleBackToTabs} />
+      )}
       {currentView === 'detail' && selectedTabId && (
         <TabDetail tabId={selectedTabId} onBack={handleBackToTabs} />
       )}
+      {showPalette && (
+        <CommandPalette
+          onNavigate={handlePaletteNavigate}
+          onChanged={() => setTabsKey((key) => key + 1)}
+          onClose={() => setShowPalette(false)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,105 @@
+// Chrome-backed implementations of the engine's clock and storage, plus
+// promise wrappers for the callback-style tabs, tab groups, windows, sessions,
+// bookmarks and alarms APIs
+import type { Clock, StorageAdapter } from './timingEngine';
+
+// Run a callback-style chrome API call, rejecting on chrome.runtime.lastError
+const chromeCall = <T = void>(call: (callback: (result: T) => void) => void): Promise<T> =>
+  new Promise((resolve, reject) => {
+    call((result) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve(result);
+      }
+    });
+  });
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+export const chromeStorage: StorageAdapter = {
+  get: (keys) => chromeCall((callback) => chrome.storage.local.get(keys, callback)),
+  set: (items) => chromeCall((callback) => chrome.storage.local.set(items, callback)),
+  remove: (keys) => chromeCall((callback) => chrome.storage.local.remove(keys, callback)),
+};
+
+// Survives service worker restarts but not browser restarts
+export const chromeSessionStorage: StorageAdapter = {
+  get: (keys) => chromeCall((callback) => chrome.storage.session.get(keys, callback)),
+  set: (items) => chromeCall((callback) => chrome.storage.session.set(items, callback)),
+  remove: (keys) => chromeCall((callback) => chrome.storage.session.remove(keys, callback)),
+};
+
+export const queryTabs = (queryInfo: Record<string, unknown>): Promise<chrome.tabs.Tab[]> =>
+  chromeCall((callback) => chrome.tabs.query(queryInfo, callback));
+
+export const getTab = (tabId: number): Promise<chrome.tabs.Tab> =>
+  chromeCall((callback) => chrome.tabs.get(tabId, callback));
+
+export const moveTab = (tabId: number, moveProperties: { index: number; windowId?: number }): Promise<chrome.tabs.Tab> =>
+  chromeCall((callback) => chrome.tabs.move(tabId, moveProperties, callback));
+
+export const moveTabs = (tabIds: number[], moveProperties: { index: number; windowId?: number }): Promise<chrome.tabs.Tab[]> =>
+  chromeCall((callback) => chrome.tabs.move(tabIds, moveProperties, callback));
+
+export const createTab = (createProperties: chrome.tabs.CreateProperties): Promise<chrome.tabs.Tab> =>
+  chromeCall((callback) => chrome.tabs.create(createProperties, callback));
+
+export const updateTab = (tabId: number, updateProperties: chrome.tabs.UpdateProperties): Promise<chrome.tabs.Tab> =>
+  chromeCall((callback) => chrome.tabs.update(tabId, updateProperties, callback));
+
+export const removeTabs = (tabIds: number | number[]): Promise<void> =>
+  chromeCall((callback) => chrome.tabs.remove(tabIds, callback));
+
+export const discardTab = (tabId: number): Promise<chrome.tabs.Tab | undefined> =>
+  chromeCall((callback) => chrome.tabs.discard(tabId, callback));
+
+export const groupTabs = (options: { tabIds: number[]; groupId?: number }): Promise<number> =>
+  chromeCall((callback) => chrome.tabs.group(options, callback));
+
+export const ungroupTabs = (tabIds: number[]): Promise<void> =>
+  chromeCall((callback) => chrome.tabs.ungroup(tabIds, callback));
+
+export const queryTabGroups = (queryInfo: Record<string, unknown>): Promise<chrome.tabGroups.TabGroup[]> =>
+  chromeCall((callback) => chrome.tabGroups.query(queryInfo, callback));
+
+export const updateTabGroup = (
+  groupId: number,
+  updateProperties: chrome.tabGroups.UpdateProperties
+): Promise<chrome.tabGroups.TabGroup | undefined> =>
+  chromeCall((callback) => chrome.tabGroups.update(groupId, updateProperties, callback));
+
+export const moveTabGroup = (
+  groupId: number,
+  moveProperties: { index: number; windowId?: number }
+): Promise<chrome.tabGroups.TabGroup | undefined> =>
+  chromeCall((callback) => chrome.tabGroups.move(groupId, moveProperties, callback));
+
+export const createWindow = (createData: chrome.windows.CreateData): Promise<chrome.windows.Window> =>
+  chromeCall((callback) => chrome.windows.create(createData, callback));
+
+export const getLastFocusedWindow = (): Promise<chrome.windows.Window> =>
+  chromeCall((callback) => chrome.windows.getLastFocused({}, callback));
+
+export const getAllWindows = (): Promise<chrome.windows.Window[]> =>
+  chromeCall((callback) => chrome.windows.getAll({ populate: true, windowTypes: ['normal'] }, callback));
+
+export const focusWindow = (windowId: number): Promise<chrome.windows.Window> =>
+  chromeCall((callback) => chrome.windows.update(windowId, { focused: true }, callback));
+
+export const getRecentlyClosed = (maxResults: number): Promise<chrome.sessions.Session[]> =>
+  chromeCall((callback) => chrome.sessions.getRecentlyClosed({ maxResults }, callback));
+
+export const restoreSession = (sessionId: string): Promise<chrome.sessions.Session> =>
+  chromeCall((callback) => chrome.sessions.restore(sessionId, callback));
+
+export const createBookmark = (bookmark: chrome.bookmarks.CreateDetails): Promise<chrome.bookmarks.BookmarkTreeNode> =>
+  chromeCall((callback) => chrome.bookmarks.create(bookmark, callback));
+
+export const searchBookmarks = (query: { title?: string; url?: string }): Promise<chrome.bookmarks.BookmarkTreeNode[]> =>
+  chromeCall((callback) => chrome.bookmarks.search(query, callback));
+
+export const getAlarm = (name: string): Promise<chrome.alarms.Alarm | undefined> =>
+  chromeCall((callback) => chrome.alarms.get(name, callback));
@@ -0,0 +1,120 @@
+// Per-domain time aggregation over open tabs and closed history
+import { DAY_MS, getDayStart } from '../shared/days';
+import { getPageTimes } from '../shared/timeline';
+import type { ActiveInterval, AnalyticsRange, ClosedTabData, DomainStats, PageVisit, TabInfo, TabTiming } from '../shared/types';
+import { getHostname } from '../shared/url';
+
+const RANGE_DAYS: Record<AnalyticsRange, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+};
+
+// Start of the range: the start of today, or that many days back
+export const getRangeStart = (range: AnalyticsRange, now: number, dayStartHour = 0): number =>
+  getDayStart(now, dayStartHour) - (RANGE_DAYS[range] - 1) * DAY_MS;
+
+interface OpenTabTiming {
+  timingData: Record<number, TabTiming>;
+  tabInfo: Record<number, TabInfo>;
+}
+
+// What one tab, open or closed, contributes to the totals
+interface TabRecord {
+  url?: string;
+  openedAt: number;
+  endedAt: number;
+  totalActiveTime: number;
+  activeIntervals?: ActiveInterval[];
+  pages?: PageVisit[];
+  isOpen: boolean;
+}
+
+const overlap = (start: number, end: number, from: number, to: number): number =>
+  Math.max(0, Math.min(end, to) - Math.max(start, from));
+
+const clipIntervals = (intervals: ActiveInterval[], from: number, to: number): ActiveInterval[] =>
+  intervals
+    .map((interval) => ({ start: Math.max(interval.start, from), end: Math.min(interval.end, to) }))
+    .filter((interval) => interval.end > interval.start);
+
+// Active and open time a tab spent on each hostname within the range. Focus
+// intervals are clipped to the range and credited to the page shown at the
+// time, as in the tab timeline. Tabs recorded before intervals were kept only
+// have a total, which is capped at their open time in the range and credited
+// to their last address.
+const getHostTimes = (tab: TabRecord, from: number, to: number): Map<string, { activeTime: number; openTime: number }> => {
+  const times = new Map<string, { activeTime: number; openTime: number }>();
+  const credit = (url: string | undefined, activeTime: number, openTime: number) => {
+    const hostname = getHostname(url);
+    if (!hostname || openTime <= 0) return;
+    const entry = times.get(hostname) ?? { activeTime: 0, openTime: 0 };
+    entry.activeTime += activeTime;
+    entry.openTime += openTime;
+    times.set(hostname, entry);
+  };
+
+  if (!tab.activeIntervals) {
+    const openTime = overlap(tab.openedAt, tab.endedAt, from, to);
+    credit(tab.url, Math.min(tab.totalActiveTime, openTime), openTime);
+    return times;
+  }
+
+  // The first page covers the tab from when it was opened
+  const pages = tab.pages?.length ? tab.pages : [{ url: tab.url ?? '', title: '', at: tab.openedAt }];
+  const visits = pages.map((page, index) => (index === 0 ? { ...page, at: Math.min(page.at, tab.openedAt) } : page));
+  getPageTimes(visits, clipIntervals(tab.activeIntervals, from, to), tab.endedAt).forEach((page) => {
+    credit(page.url, page.activeTime, overlap(page.at, page.until, from, to));
+  });
+  return times;
+};
+
+// Active and open time per hostname within the range, over open tabs and the
+// closed tabs of the range
+export function aggregateByDomain(
+  { timingData, tabInfo }: OpenTabTiming,
+  closedTabs: ClosedTabData[],
+  from: number,
+  now: number
+): DomainStats[] {
+  const stats = new Map<string, DomainStats>();
+
+  const add = (tab: TabRecord) => {
+    getHostTimes(tab, from, now).forEach(({ activeTime, openTime }, hostname) => {
+      const entry = stats.get(hostname) ?? { hostname, activeTime: 0, openTime: 0, tabCount: 0, openTabCount: 0 };
+      entry.activeTime += activeTime;
+      entry.openTime += openTime;
+      entry.tabCount += 1;
+      if (tab.isOpen) entry.openTabCount += 1;
+      stats.set(hostname, entry);
+    });
+  };
+
+  Object.entries(timingData).forEach(([tabId, timing]) => {
+    // The active tab's running stretch has not been committed to its intervals yet
+    const running = timing.currentActiveTime ? [{ start: now - timing.currentActiveTime, end: now }] : [];
+    add({
+      url: tabInfo[Number(tabId)]?.url,
+      openedAt: timing.openedAt,
+      endedAt: now,
+      totalActiveTime: timing.totalActiveTime + (timing.currentActiveTime || 0),
+      activeIntervals: timing.activeIntervals && [...timing.activeIntervals, ...running],
+      pages: timing.pages,
+      isOpen: true,
+    });
+  });
+
+  closedTabs.forEach((tab) => {
+    add({
+      url: tab.url,
+      openedAt: tab.openedAt,
+      endedAt: tab.closedAt,
+      totalActiveTime: tab.totalActiveTime,
+      activeIntervals: tab.activeIntervals,
+      pages: tab.pages,
+      isOpen: false,
+    });
+  });
+
+  return [...stats.values()].sort((a, b) => b.activeTime - a.activeTime || b.openTime - a.openTime);
+}
@@ -0,0 +1,130 @@
+// Export and import of all extension data as a versioned backup file
+import { BACKUP_FORMAT, BACKUP_VERSION } from '../shared/backup';
+import type {
+  BackupFile,
+  BackupSettings,
+  ClosedTabData,
+  ImportMode,
+  ImportSectionSummary,
+  ImportSummary,
+} from '../shared/types';
+import type { ClosedTabsStore } from './closedTabsStore';
+import { applyIdleSettings, DEFAULT_IDLE_SETTINGS } from './idle';
+import type { Clock, StorageAdapter, TimingEngine } from './timingEngine';
+import type { WorkspaceStore } from './workspaces';
+
+// Settings are backed up under the storage keys their modules use
+const SETTINGS_KEYS: (keyof BackupSettings)[] = [
+  'historyRetention',
+  'duplicateSettings',
+  'idleSettings',
+  'tabRules',
+  'savedSearches',
+  'domainBudgets',
+  'trackingSettings',
+];
+
+export interface BackupSources {
+  storage: StorageAdapter;
+  clock: Clock;
+  engine: TimingEngine;
+  history: ClosedTabsStore;
+  workspaces: WorkspaceStore;
+}
+
+// The same closed tab appears with a new historyId once it has been imported
+const closedTabKey = (tab: ClosedTabData) => `${tab.closedAt}:${tab.url}`;
+
+const keyBy = <T>(items: T[], getKey: (item: T) => string): Record<string, T> =>
+  Object.fromEntries(items.map((item) => [getKey(item), item]));
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Compare two sections keyed by id; entries only in `current` are removed by a
+// replace and kept by a merge
+const diffSection = (
+  current: Record<string, unknown>,
+  incoming: Record<string, unknown>,
+  mode: ImportMode
+): ImportSectionSummary => {
+  const summary: ImportSectionSummary = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+  Object.entries(incoming).forEach(([key, entry]) => {
+    if (!(key in current)) {
+      summary.added += 1;
+    } else if (isEqual(current[key], entry)) {
+      summary.unchanged += 1;
+    } else {
+      summary.updated += 1;
+    }
+  });
+  Object.keys(current).forEach((key) => {
+    if (key in incoming) return;
+    if (mode === 'replace') {
+      summary.removed += 1;
+    } else {
+      summary.unchanged += 1;
+    }
+  });
+  return summary;
+};
+
+export const summarizeImport = (current: BackupFile, incoming: BackupFile, mode: ImportMode): ImportSummary => ({
+  tabTiming: diffSection(current.tabTiming, incoming.tabTiming, mode),
+  tabInfo: diffSection(current.tabInfo, incoming.tabInfo, mode),
+  closedTabs: diffSection(keyBy(current.closedTabs, closedTabKey), keyBy(incoming.closedTabs, closedTabKey), mode),
+  workspaces: diffSection(
+    keyBy(current.workspaces, (workspace) => workspace.id),
+    keyBy(incoming.workspaces, (workspace) => workspace.id),
+    mode
+  ),
+  settings: diffSection(current.settings, incoming.settings, mode),
+});
+
+export const createBackup = async ({ storage, clock, engine, history, workspaces }: BackupSources): Promise<BackupFile> => {
+  const settings = await storage.get(SETTINGS_KEYS);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: clock.now(),
+    tabTiming: engine.getTimingSnapshot().timingData,
+    tabInfo: engine.getTabInfoSnapshot(),
+    closedTabs: await history.getRange(-Infinity, Infinity),
+    workspaces: await workspaces.list(),
+    settings: Object.fromEntries(
+      SETTINGS_KEYS.filter((key) => settings[key] !== undefined).map((key) => [key, settings[key]])
+    ) as BackupSettings,
+  };
+};
+
+// Write a backup over the current data. A merge lets the backup win for
+// entries both contain and keeps the rest; a replace keeps only the backup.
+export const applyBackup = async (sources: BackupSources, incoming: BackupFile, mode: ImportMode): Promise<ImportSummary> => {
+  const { storage, engine, history, workspaces } = sources;
+  const current = await createBackup(sources);
+  const summary = summarizeImport(current, incoming, mode);
+  const merge = <T>(existing: T, imported: T): T => (mode === 'merge' ? { ...existing, ...imported } : imported);
+
+  engine.replaceData(merge(current.tabTiming, incoming.tabTiming), merge(current.tabInfo, incoming.tabInfo));
+
+  const knownClosedTabs = new Set(current.closedTabs.map(closedTabKey));
+  await history.addAll(
+    mode === 'merge' ? incoming.closedTabs.filter((tab) => !knownClosedTabs.has(closedTabKey(tab))) : incoming.closedTabs,
+    { replace: mode === 'replace' }
+  );
+
+  const mergedWorkspaces = Object.values(merge(
+    keyBy(current.workspaces, (workspace) => workspace.id),
+    keyBy(incoming.workspaces, (workspace) => workspace.id)
+  ));
+  await workspaces.replaceAll(mergedWorkspaces);
+
+  const settings = merge(current.settings, incoming.settings);
+  const dropped = SETTINGS_KEYS.filter((key) => settings[key] === undefined);
+  await storage.set(settings);
+  if (dropped.length > 0) {
+    await storage.remove(dropped);
+  }
+  applyIdleSettings(settings.idleSettings ?? DEFAULT_IDLE_SETTINGS);
+
+  return summary;
+};
@@ -0,0 +1,21 @@
+// Bookmarking open tabs into a named folder
+import { createBookmark, getTab, searchBookmarks } from './adapters';
+
+// An existing folder with the given title, or a new one under "Other bookmarks"
+const findOrCreateFolder = async (title: string): Promise<string> => {
+  const folder = (await searchBookmarks({ title })).find((node) => node.url === undefined);
+  return folder ? folder.id : (await createBookmark({ title })).id;
+};
+
+// Bookmark the given tabs, in order, and return the folder they went into
+export const bookmarkTabs = async (tabIds: number[], folderTitle: string): Promise<{ folderId: string; count: number }> => {
+  const folderId = await findOrCreateFolder(folderTitle);
+  let count = 0;
+  for (const tabId of tabIds) {
+    const tab = await getTab(tabId);
+    if (!tab.url) continue;
+    await createBookmark({ parentId: folderId, title: tab.title || tab.url, url: tab.url });
+    count += 1;
+  }
+  return { folderId, count };
+};
@@ -0,0 +1,186 @@
+// Daily active time budgets per domain, with warnings, blocking and a badge
+// showing what is left for the active tab's domain
+import type { BudgetStatus, DomainBudget } from '../shared/types';
+import { getDayStart } from '../shared/days';
+import { getHostname, matchesDomainPattern } from '../shared/url';
+import type { Clock, StorageAdapter } from './timingEngine';
+
+const BUDGETS_KEY = 'domainBudgets';
+const USAGE_KEY = 'budgetUsage';
+const MINUTE = 60 * 1000;
+
+// Share of a budget at which a notification is shown
+export const BUDGET_THRESHOLDS = [0.8, 1];
+
+// Active time counted against each budget on one local day
+type BudgetUsage = {
+  day: string;
+  usedMs: Record<string, number>;
+  // Highest threshold already notified per budget
+  notified: Record<string, number>;
+};
+
+// Budgets only count time on web pages, which also keeps the blocking page
+// itself from ever matching
+const isWebUrl = (url?: string): url is string => !!url && /^https?:/.test(url);
+
+const toDay = (timestamp: number, dayStartHour: number): string => {
+  const date = new Date(getDayStart(timestamp, dayStartHour));
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+};
+
+export const loadBudgets = async (storage: StorageAdapter): Promise<DomainBudget[]> => {
+  const result = await storage.get([BUDGETS_KEY]);
+  return Array.isArray(result[BUDGETS_KEY]) ? (result[BUDGETS_KEY] as DomainBudget[]) : [];
+};
+
+export const saveBudgets = (storage: StorageAdapter, budgets: DomainBudget[]) =>
+  storage.set({ [BUDGETS_KEY]: budgets });
+
+// Enabled budgets whose pattern covers the URL's domain
+export const findBudgetsFor = (budgets: DomainBudget[], url?: string): DomainBudget[] => {
+  if (!isWebUrl(url)) return [];
+  const hostname = getHostname(url);
+  return budgets.filter((budget) => budget.enabled && matchesDomainPattern(hostname, budget.domainPattern));
+};
+
+// Short remaining time for the toolbar badge, e.g. "25m" or "2h"
+export const formatBadgeTime = (milliseconds: number): string => {
+  const minutes = Math.max(0, Math.ceil(milliseconds / MINUTE));
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h` : `${minutes}m`;
+};
+
+export type BudgetTracker = ReturnType<typeof createBudgetTracker>;
+
+export function createBudgetTracker(storage: StorageAdapter, clock: Clock) {
+  // Hour at which budgets reset, from the tracking settings
+  let dayStartHour = 0;
+
+  // Usage is read, changed and written back; run those steps one at a time
+  let pending: Promise<unknown> = Promise.resolve();
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = pending.then(task);
+    pending = result.catch(() => undefined);
+    return result;
+  };
+
+  // Today's usage, starting over on a new day
+  const readUsage = async (): Promise<BudgetUsage> => {
+    const result = await storage.get([USAGE_KEY]);
+    const usage = result[USAGE_KEY] as BudgetUsage | undefined;
+    const today = toDay(clock.now(), dayStartHour);
+    return usage?.day === today ? usage : { day: today, usedMs: {}, notified: {} };
+  };
+
+  // Add or subtract a stretch of active time on every budget matching the
+  // URL; only the part since the day began counts towards today
+  const changeUsage = (url: string | undefined, start: number, end: number, sign: 1 | -1) =>
+    serialize(async () => {
+      const matching = findBudgetsFor(await loadBudgets(storage), url);
+      if (matching.length === 0) return;
+      const usage = await readUsage();
+      const elapsed = end - Math.max(start, getDayStart(end, dayStartHour));
+      if (elapsed <= 0) return;
+      matching.forEach((budget) => {
+        usage.usedMs[budget.id] = Math.max(0, (usage.usedMs[budget.id] ?? 0) + sign * elapsed);
+      });
+      await storage.set({ [USAGE_KEY]: usage });
+    });
+
+  // Count a committed stretch of active time
+  const record = (url: string | undefined, start: number, end: number) => changeUsage(url, start, end, 1);
+
+  // Give back a stretch the engine withdrew because the user was idle
+  const withdraw = (url: string | undefined, start: number, end: number) => changeUsage(url, start, end, -1);
+
+  // Progress of every budget, adding uncommitted time on the active tab
+  const getStatuses = async (budgets: DomainBudget[], live?: { url?: string; activeMs: number }): Promise<BudgetStatus[]> => {
+    const usage = await readUsage();
+    const liveBudgets = new Set(findBudgetsFor(budgets, live?.url).map((budget) => budget.id));
+    return budgets.map((budget) => ({
+      budgetId: budget.id,
+      usedMs: (usage.usedMs[budget.id] ?? 0) + (liveBudgets.has(budget.id) ? live!.activeMs : 0),
+      limitMs: budget.minutesPerDay * MINUTE,
+    }));
+  };
+
+  // Thresholds each budget has newly crossed, recorded so each fires once a day
+  const takeCrossedThresholds = (statuses: BudgetStatus[]) =>
+    serialize(async () => {
+      const usage = await readUsage();
+      const crossed: { budgetId: string; threshold: number }[] = [];
+      statuses.forEach((status) => {
+        const reached = BUDGET_THRESHOLDS.filter((threshold) => status.usedMs >= status.limitMs * threshold);
+        const highest = reached[reached.length - 1];
+        if (highest !== undefined && highest > (usage.notified[status.budgetId] ?? 0)) {
+          usage.notified[status.budgetId] = highest;
+          crossed.push({ budgetId: status.budgetId, threshold: highest });
+        }
+      });
+      if (crossed.length > 0) {
+        await storage.set({ [USAGE_KEY]: usage });
+      }
+      return crossed;
+    });
+
+  // Drop today's usage of the given budgets
+  const forgetUsage = (budgetIds: string[]) =>
+    serialize(async () => {
+      const usage = await readUsage();
+      budgetIds.forEach((budgetId) => {
+        delete usage.usedMs[budgetId];
+        delete usage.notified[budgetId];
+      });
+      await storage.set({ [USAGE_KEY]: usage });
+    });
+
+  const configure = (settings: { dayStartHour: number }) => {
+    dayStartHour = settings.dayStartHour;
+  };
+
+  return { record, withdraw, getStatuses, takeCrossedThresholds, forgetUsage, configure };
+}
+
+export const notifyBudget = (budget: DomainBudget, threshold: number) => {
+  const used = threshold >= 1;
+  chrome.notifications.create(`budget-${budget.id}-${threshold}`, {
+    type: 'basic',
+    iconUrl: 'icon48.png',
+    title: used ? `${budget.name}: budget used up` : `${budget.name}: ${Math.round(threshold * 100)}% of budget used`,
+    message: used
+      ? `You have spent your ${budget.minutesPerDay} minutes for today on ${budget.domainPattern}.${budget.block ? ' Matching pages are now blocked.' : ''}`
+      : `About ${Math.round(budget.minutesPerDay * (1 - threshold))} minutes left today on ${budget.domainPattern}.`,
+  });
+};
+
+// Address of the page shown instead of a blocked site
+export const getBlockedPageUrl = (budget: DomainBudget, url: string): string =>
+  `${chrome.runtime.getURL('blocked.html')}?${new URLSearchParams({ budget: budget.name, minutes: String(budget.minutesPerDay), url })}`;
+
+// Active time left on the tab's domain until the next warning or limit of a
+// budget covering it, or null when none is ahead
+export const getTimeToNextThreshold = (budgets: DomainBudget[], statuses: BudgetStatus[], url?: string): number | null => {
+  const ids = new Set(findBudgetsFor(budgets, url).map((budget) => budget.id));
+  const remaining = statuses
+    .filter((status) => ids.has(status.budgetId))
+    .flatMap((status) => BUDGET_THRESHOLDS.map((threshold) => status.limitMs * threshold - status.usedMs))
+    .filter((milliseconds) => milliseconds > 0);
+  return remaining.length > 0 ? Math.min(...remaining) : null;
+};
+
+// Show the time left on the tightest budget for the tab's domain, or clear
+// the badge when no budget applies
+export const updateBadge = (budgets: DomainBudget[], statuses: BudgetStatus[], url?: string) => {
+  const ids = new Set(findBudgetsFor(budgets, url).map((budget) => budget.id));
+  const remaining = statuses
+    .filter((status) => ids.has(status.budgetId))
+    .map((status) => ({ ...status, left: status.limitMs - status.usedMs }))
+    .sort((a, b) => a.left - b.left)[0];
+  if (!remaining) {
+    chrome.action.setBadgeText({ text: '' });
+    return;
+  }
+  const warning = remaining.left <= remaining.limitMs * (1 - BUDGET_THRESHOLDS[0]);
+  chrome.action.setBadgeText({ text: formatBadgeTime(remaining.left) });
+  chrome.action.setBadgeBackgroundColor({ color: remaining.left <= 0 ? '#dc2626' : warning ? '#d97706' : '#059669' });
+};
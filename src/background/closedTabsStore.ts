@@ -0,0 +1,225 @@
+// Closed tab history kept in IndexedDB, indexed by closedAt and hostname
+import type { ClosedTabData, RetentionPolicy } from '../shared/types';
+import { getHostname } from '../shared/url';
+import type { StorageAdapter } from './timingEngine';
+
+const DB_NAME = 'tab-manager';
+const DB_VERSION = 1;
+const STORE_NAME = 'closedTabs';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  maxAgeDays: 30,
+  maxEntries: 5000,
+};
+
+// Record as stored, with the hostname denormalized for the index
+type ClosedTabRecord = ClosedTabData & { historyId: number; hostname: string };
+
+export interface ClosedTabsQuery {
+  from?: number;
+  to?: number;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ClosedTabsPage {
+  closedTabs: ClosedTabData[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export type ClosedTabsStore = ReturnType<typeof createClosedTabsStore>;
+
+const DEFAULT_PAGE_SIZE = 50;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (factory: IDBFactory): Promise<IDBDatabase> => {
+  const request = factory.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'historyId', autoIncrement: true });
+    // Pages are ordered by closedAt with historyId as a tiebreaker
+    store.createIndex('closedAt', ['closedAt', 'historyId']);
+    store.createIndex('hostname', 'hostname');
+  };
+  return requestToPromise(request);
+};
+
+// Cursors are the [closedAt, historyId] key of the last returned entry
+const encodeCursor = (record: ClosedTabRecord) => `${record.closedAt}:${record.historyId}`;
+
+const decodeCursor = (cursor: string): [number, number] | null => {
+  const [closedAt, historyId] = cursor.split(':').map(Number);
+  return Number.isFinite(closedAt) && Number.isFinite(historyId) ? [closedAt, historyId] : null;
+};
+
+const toClosedTabData = (record: ClosedTabRecord): ClosedTabData => {
+  const tab: ClosedTabData & { hostname?: string } = { ...record };
+  delete tab.hostname;
+  return tab;
+};
+
+export function createClosedTabsStore(factory: IDBFactory = indexedDB) {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(factory);
+    }
+    return dbPromise;
+  };
+
+  // Append closed tabs to the history in one transaction, optionally clearing
+  // it first
+  const addAll = async (tabs: ClosedTabData[], { replace = false } = {}) => {
+    const db = await getDb();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    if (replace) {
+      store.clear();
+    }
+    tabs.forEach((tab) => {
+      // Let the store assign a fresh historyId
+      const record: ClosedTabData & { hostname: string } = { ...tab, hostname: getHostname(tab.url) };
+      delete record.historyId;
+      store.add(record);
+    });
+    await transactionDone(transaction);
+  };
+
+  // Append a closed tab to the history
+  const add = (tab: ClosedTabData) => addAll([tab]);
+
+  // Newest-first page of closed tabs within [from, to]
+  const query = async ({ from, to, cursor, limit = DEFAULT_PAGE_SIZE }: ClosedTabsQuery = {}): Promise<ClosedTabsPage> => {
+    const db = await getDb();
+    const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('closedAt');
+
+    const lower = from !== undefined ? [from] : [-Infinity];
+    const upper = to !== undefined ? [to, Infinity] : [Infinity];
+    const total = await requestToPromise(index.count(IDBKeyRange.bound(lower, upper)));
+
+    const after = cursor ? decodeCursor(cursor) : null;
+    const pageRange = after ? IDBKeyRange.bound(lower, after, false, true) : IDBKeyRange.bound(lower, upper);
+
+    const records: ClosedTabRecord[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(pageRange, 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const idbCursor = request.result;
+        if (!idbCursor || records.length >= limit) {
+          resolve();
+          return;
+        }
+        records.push(idbCursor.value as ClosedTabRecord);
+        idbCursor.continue();
+      };
+    });
+
+    const hasMore = records.length === limit;
+    return {
+      closedTabs: records.map(toClosedTabData),
+      nextCursor: hasMore ? encodeCursor(records[records.length - 1]) : null,
+      total,
+    };
+  };
+
+  // Every closed tab whose closedAt falls within [from, to], oldest first
+  const getRange = async (from: number, to: number): Promise<ClosedTabData[]> => {
+    const db = await getDb();
+    const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('closedAt');
+    const records = await requestToPromise(index.getAll(IDBKeyRange.bound([from], [to, Infinity])));
+    return (records as ClosedTabRecord[]).map(toClosedTabData);
+  };
+
+  // A single closed tab by its historyId
+  const get = async (historyId: number): Promise<ClosedTabData | undefined> => {
+    const db = await getDb();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const record = await requestToPromise(store.get(historyId));
+    return record ? toClosedTabData(record as ClosedTabRecord) : undefined;
+  };
+
+  // Delete the given entries, e.g. once their tabs have been reopened
+  const remove = async (historyIds: number[]) => {
+    const db = await getDb();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    historyIds.forEach((historyId) => store.delete(historyId));
+    await transactionDone(transaction);
+  };
+
+  // Delete entries for matching pages and take those pages out of the page
+  // history of the rest; returns how many entries were deleted
+  const forgetPages = async (matches: (url: string) => boolean): Promise<number> => {
+    const db = await getDb();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    let deleted = 0;
+    const request = transaction.objectStore(STORE_NAME).openCursor();
+    request.onsuccess = () => {
+      const idbCursor = request.result;
+      if (!idbCursor) return;
+      const record = idbCursor.value as ClosedTabRecord;
+      if (record.url && matches(record.url)) {
+        idbCursor.delete();
+        deleted += 1;
+      } else if (record.pages?.some((page) => matches(page.url))) {
+        idbCursor.update({ ...record, pages: record.pages.filter((page) => !matches(page.url)) });
+      }
+      idbCursor.continue();
+    };
+    await transactionDone(transaction);
+    return deleted;
+  };
+
+  // Delete entries older than the policy's age, then the oldest beyond its count
+  const prune = async (policy: RetentionPolicy, now: number) => {
+    const db = await getDb();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const index = transaction.objectStore(STORE_NAME).index('closedAt');
+    const cutoff = now - policy.maxAgeDays * DAY_MS;
+
+    const total = await requestToPromise(index.count());
+    const expired = await requestToPromise(index.count(IDBKeyRange.upperBound([cutoff], true)));
+    let toDelete = Math.max(expired, total - policy.maxEntries);
+
+    if (toDelete > 0) {
+      const request = index.openCursor();
+      request.onsuccess = () => {
+        const idbCursor = request.result;
+        if (!idbCursor || toDelete <= 0) return;
+        idbCursor.delete();
+        toDelete -= 1;
+        idbCursor.continue();
+      };
+    }
+    await transactionDone(transaction);
+  };
+
+  return { add, addAll, get, remove, forgetPages, query, getRange, prune };
+}
+
+// Move the closed tabs kept by earlier versions in chrome.storage into the store
+export async function importLegacyClosedTabs(storage: StorageAdapter, store: ClosedTabsStore) {
+  const result = await storage.get(['closedTabs']);
+  if (!Array.isArray(result.closedTabs)) return;
+
+  // Legacy entries are newest first; add oldest first to keep insertion order
+  const legacyTabs = [...(result.closedTabs as ClosedTabData[])].reverse();
+  for (const tab of legacyTabs) {
+    await store.add(tab);
+  }
+  await storage.remove(['closedTabs', 'closedTabsDay']);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DUPLICATE_SETTINGS, findDuplicateGroups, pickSurvivor } from './duplicates';
+
+const tab = (id: number, url: string): chrome.tabs.Tab => ({
+  id,
+  url,
+  index: id,
+  windowId: 1,
+  active: false,
+  pinned: false,
+  groupId: -1,
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups tabs whose URLs differ only in fragment, tracking parameters or trailing slash', () => {
+    const groups = findDuplicateGroups([
+      tab(1, 'https://example.com/docs'),
+      tab(2, 'https://www.example.com/docs/#setup'),
+      tab(3, 'https://example.com/docs?utm_campaign=launch'),
+      tab(4, 'https://example.com/docs?page=2'),
+    ], DEFAULT_DUPLICATE_SETTINGS);
+    expect(groups).toEqual([{ url: 'https://example.com/docs', tabIds: [1, 2, 3] }]);
+  });
+
+  it('keeps tabs apart when the normalization is turned off', () => {
+    const groups = findDuplicateGroups(
+      [tab(1, 'https://example.com/docs'), tab(2, 'https://example.com/docs#setup')],
+      { ...DEFAULT_DUPLICATE_SETTINGS, ignoreHash: false }
+    );
+    expect(groups).toEqual([]);
+  });
+
+  it('skips browser pages and tabs without an id', () => {
+    const groups = findDuplicateGroups([
+      tab(1, 'chrome://settings'),
+      tab(2, 'chrome://settings'),
+      { ...tab(3, 'https://example.com/'), id: undefined },
+      tab(4, 'https://example.com/'),
+    ], DEFAULT_DUPLICATE_SETTINGS);
+    expect(groups).toEqual([]);
+  });
+});
+
+describe('pickSurvivor', () => {
+  it('keeps the copy with the most active time, including the running interval', () => {
+    expect(pickSurvivor([1, 2, 3], {
+      1: { openedAt: 0, totalActiveTime: 5000 },
+      2: { openedAt: 0, totalActiveTime: 3000, currentActiveTime: 4000 },
+      3: { openedAt: 0, totalActiveTime: 6000 },
+    })).toBe(2);
+  });
+
+  it('keeps the first copy when none has been used', () => {
+    expect(pickSurvivor([7, 8], {})).toBe(7);
+  });
+});
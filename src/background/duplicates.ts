@@ -0,0 +1,59 @@
+// Duplicate tab detection by normalized URL
+import type { DuplicateGroup, DuplicateSettings, TabTiming } from '../shared/types';
+import { normalizeUrl } from '../shared/url';
+import { focusWindow, queryTabs, removeTabs, updateTab } from './adapters';
+import type { StorageAdapter } from './timingEngine';
+
+const STORAGE_KEY = 'duplicateSettings';
+
+export const DEFAULT_DUPLICATE_SETTINGS: DuplicateSettings = {
+  ignoreHash: true,
+  ignoreTrackingParams: true,
+  ignoreTrailingSlash: true,
+  autoFocusExisting: false,
+};
+
+export const loadDuplicateSettings = async (storage: StorageAdapter): Promise<DuplicateSettings> => {
+  const result = await storage.get([STORAGE_KEY]);
+  return { ...DEFAULT_DUPLICATE_SETTINGS, ...(result[STORAGE_KEY] as Partial<DuplicateSettings> | undefined) };
+};
+
+export const saveDuplicateSettings = (storage: StorageAdapter, settings: DuplicateSettings) =>
+  storage.set({ [STORAGE_KEY]: settings });
+
+const isTrackable = (url?: string): url is string => !!url && !url.startsWith('chrome://');
+
+// Groups of two or more open tabs with the same normalized URL
+export const findDuplicateGroups = (tabs: chrome.tabs.Tab[], settings: DuplicateSettings): DuplicateGroup[] => {
+  const groups = new Map<string, number[]>();
+  tabs.forEach((tab) => {
+    if (tab.id === undefined || !isTrackable(tab.url)) return;
+    const url = normalizeUrl(tab.url, settings);
+    groups.set(url, [...(groups.get(url) ?? []), tab.id]);
+  });
+  return [...groups.entries()]
+    .filter(([, tabIds]) => tabIds.length > 1)
+    .map(([url, tabIds]) => ({ url, tabIds }));
+};
+
+// The copy to keep: the one with the most active time
+export const pickSurvivor = (tabIds: number[], timingData: Record<number, TabTiming>): number => {
+  const activeTime = (tabId: number) =>
+    (timingData[tabId]?.totalActiveTime ?? 0) + (timingData[tabId]?.currentActiveTime ?? 0);
+  return tabIds.reduce((best, tabId) => (activeTime(tabId) > activeTime(best) ? tabId : best));
+};
+
+// Focus an already open copy of `url` and close the tab that just navigated to it
+export const focusExistingDuplicate = async (tabId: number, url: string, settings: DuplicateSettings): Promise<boolean> => {
+  if (!isTrackable(url)) return false;
+  const target = normalizeUrl(url, settings);
+  const existing = (await queryTabs({})).find(
+    (tab) => tab.id !== undefined && tab.id !== tabId && isTrackable(tab.url) && normalizeUrl(tab.url, settings) === target
+  );
+  if (existing?.id === undefined) return false;
+
+  await updateTab(existing.id, { active: true });
+  await focusWindow(existing.windowId);
+  await removeTabs(tabId);
+  return true;
+};
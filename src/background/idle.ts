@@ -0,0 +1,22 @@
+// System idle detection settings
+import type { IdleSettings } from '../shared/types';
+import type { StorageAdapter } from './timingEngine';
+
+const STORAGE_KEY = 'idleSettings';
+
+export const DEFAULT_IDLE_SETTINGS: IdleSettings = {
+  thresholdSeconds: 60,
+};
+
+export const loadIdleSettings = async (storage: StorageAdapter): Promise<IdleSettings> => {
+  const result = await storage.get([STORAGE_KEY]);
+  return { ...DEFAULT_IDLE_SETTINGS, ...(result[STORAGE_KEY] as Partial<IdleSettings> | undefined) };
+};
+
+export const saveIdleSettings = (storage: StorageAdapter, settings: IdleSettings) =>
+  storage.set({ [STORAGE_KEY]: settings });
+
+// Make chrome.idle report "idle" after the configured threshold
+export const applyIdleSettings = (settings: IdleSettings) => {
+  chrome.idle.setDetectionInterval(Math.round(settings.thresholdSeconds));
+};
@@ -0,0 +1,692 @@
+// Background service worker for continuous tab timing tracking
+import { getDayStart } from '../shared/days';
+import { createMessageListener } from '../shared/messages';
+import { DEFAULT_TRACKING_SETTINGS } from '../shared/settings';
+import { EXCLUDED_URL, getHostname, matchesDomainPattern } from '../shared/url';
+import type { ClosedTabData, IdleSettings, RetentionPolicy, TabState, TrackingSettings, UndoKind } from '../shared/types';
+import { aggregateByDomain, getRangeStart } from './analytics';
+import {
+  chromeSessionStorage,
+  chromeStorage,
+  focusWindow,
+  getAlarm,
+  queryTabs,
+  removeTabs,
+  systemClock,
+  ungroupTabs,
+  updateTab,
+  updateTabGroup,
+} from './adapters';
+import { applyBackup, createBackup, summarizeImport, type BackupSources } from './backup';
+import { bookmarkTabs } from './bookmarks';
+import {
+  createBudgetTracker,
+  findBudgetsFor,
+  getBlockedPageUrl,
+  getTimeToNextThreshold,
+  loadBudgets,
+  notifyBudget,
+  saveBudgets,
+  updateBadge,
+} from './budgets';
+import { createClosedTabsStore, DEFAULT_RETENTION, importLegacyClosedTabs } from './closedTabsStore';
+import {
+  findDuplicateGroups,
+  focusExistingDuplicate,
+  loadDuplicateSettings,
+  pickSurvivor,
+  saveDuplicateSettings,
+} from './duplicates';
+import { applyIdleSettings, DEFAULT_IDLE_SETTINGS, loadIdleSettings, saveIdleSettings } from './idle';
+import { getOmniboxCandidates, parseOmniboxTarget, toSuggestions, type OmniboxTarget } from './omnibox';
+import { forgetOpenedTab, reopenTab, restoreClosedTab, wasOpenedHere } from './reopen';
+import { clearRuleLog, forgetRuleLogPages, loadRuleLog, loadRules, runRules, saveRules } from './rules';
+import { loadSavedSearches, saveSavedSearches } from './savedSearches';
+import { addTabsToGroup, listTabGroups, moveTabNextTo } from './tabGroups';
+import { createTimingEngine } from './timingEngine';
+import { loadTrackingSettings, saveTrackingSettings, watchTrackingSettings } from './trackingSettings';
+import { captureTabStates, createUndoLog, undoEntry } from './undo';
+import { mergeAllWindows, moveTabsToNewWindow, moveTabsToWindow, reorderWindowTabs } from './windows';
+import { captureWindows, createWorkspaceStore, restoreWorkspace } from './workspaces';
+import { createBufferedStorage } from './writeBuffer';
+
+const WRITE_DELAY = 2000; // Coalesce timing writes made within 2 seconds
+const PRUNE_ALARM = 'prune-history';
+const PRUNE_PERIOD_MINUTES = 60; // Apply the retention policy every hour
+const RULES_ALARM = 'run-rules';
+const RULES_PERIOD_MINUTES = 1; // Evaluate stale tab rules every minute
+const BUDGET_ALARM = 'check-budgets';
+const BUDGET_PERIOD_MINUTES = 1; // Refresh the badge's remaining minutes
+const BUDGET_THRESHOLD_ALARM = 'budget-threshold';
+const UNDO_CLOSE_SLACK = 5 * 1000; // How long before a logged close its tabs may have closed
+
+const closedTabsStore = createClosedTabsStore();
+const budgetTracker = createBudgetTracker(chromeStorage, systemClock);
+const engineStorage = createBufferedStorage(chromeStorage, WRITE_DELAY);
+const engine = createTimingEngine({
+  clock: systemClock,
+  storage: engineStorage,
+  // Every new entry may push the history past its retention limit
+  history: {
+    add: (tab) => closedTabsStore.add(tab).then(runPrune),
+  },
+  onActiveTime: ({ url, start, end }) => {
+    budgetTracker.record(url, start, end)
+      .catch((err: Error) => console.warn('Failed to record budget usage:', err.message));
+  },
+  onActiveTimeWithdrawn: ({ url, start, end }) => {
+    budgetTracker.withdraw(url, start, end)
+      .catch((err: Error) => console.warn('Failed to withdraw budget usage:', err.message));
+  },
+});
+const workspaceStore = createWorkspaceStore(chromeStorage, systemClock);
+const undoLog = createUndoLog(chromeSessionStorage, systemClock);
+
+let trackingSettings = DEFAULT_TRACKING_SETTINGS;
+let flushTimer: ReturnType<typeof setInterval> | undefined;
+
+// Hand the settings to the modules that use them and restart the periodic
+// save at the configured interval
+const applyTrackingSettings = (settings: TrackingSettings) => {
+  trackingSettings = settings;
+  engine.configure(settings);
+  budgetTracker.configure(settings);
+  clearInterval(flushTimer);
+  flushTimer = setInterval(whenReady(engine.flush), settings.saveIntervalSeconds * 1000);
+};
+
+const SESSION_MARKER_KEY = 'sessionStartedAt';
+
+// Tabs restored at browser startup get new ids, and their events can arrive
+// before runtime.onStartup. Session storage is empty only in the first run of
+// a browser session, so that is when stored entries are matched to the
+// restored tabs, before any queued tab event is applied.
+const reconcileNewSession = async () => {
+  const result = await chromeSessionStorage.get([SESSION_MARKER_KEY]);
+  if (result[SESSION_MARKER_KEY] !== undefined) return;
+  engine.reconcileSession(await queryTabs({}));
+  await chromeSessionStorage.set({ [SESSION_MARKER_KEY]: systemClock.now() });
+};
+
+// Events are applied only once the stored data and settings have been loaded
+const ready = Promise.all([
+  loadTrackingSettings(chromeStorage)
+    .catch(() => DEFAULT_TRACKING_SETTINGS)
+    .then(applyTrackingSettings),
+  engine.load().then(reconcileNewSession),
+  importLegacyClosedTabs(chromeStorage, closedTabsStore),
+]).catch((err: Error) => {
+  console.warn('Failed to load stored timing data:', err.message);
+});
+
+const backupSources: BackupSources = {
+  storage: chromeStorage,
+  clock: systemClock,
+  engine,
+  history: closedTabsStore,
+  workspaces: workspaceStore,
+};
+
+const getRetentionPolicy = async (): Promise<RetentionPolicy> => {
+  const result = await chromeStorage.get(['historyRetention']);
+  return { ...DEFAULT_RETENTION, ...(result.historyRetention as Partial<RetentionPolicy> | undefined) };
+};
+
+const pruneHistory = async () => {
+  const policy = await getRetentionPolicy();
+  await closedTabsStore.prune(policy, systemClock.now());
+};
+
+const runPrune = () => {
+  pruneHistory().catch((err: Error) => console.warn('Failed to prune closed tab history:', err.message));
+};
+
+// Reopen a closed tab where it was, let it carry on with its old timing and
+// take it out of the history
+const reopenClosedTab = async (closed: ClosedTabData, usedSessionIds?: Set<string>) => {
+  const result = await restoreClosedTab(closed, usedSessionIds);
+  engine.adoptClosedTab(result.tabId, closed);
+  if (closed.historyId !== undefined) {
+    await closedTabsStore.remove([closed.historyId]);
+  }
+  return result;
+};
+
+// Run a tab operation and log the prior state of the tabs it changes, or of
+// every tab, so it can be undone
+const withUndo = async <T>(kind: UndoKind, label: string, tabIds: number[] | undefined, operation: () => Promise<T>) => {
+  const before = await captureTabStates(tabIds);
+  const result = await operation();
+  await undoLog.push(kind, label, before);
+  return result;
+};
+
+const describeTabs = (verb: string, count: number) => `${verb} ${count} tab${count === 1 ? '' : 's'}`;
+
+// Reopen a tab closed by an operation being undone, from the history entry
+// it left when there is one
+const reopenUndoneTab = async (state: TabState, closedSince: number): Promise<number> => {
+  const closed = (await closedTabsStore.getRange(closedSince, systemClock.now())).find((tab) => tab.id === state.tabId);
+  if (closed) {
+    return (await reopenClosedTab(closed)).tabId;
+  }
+  if (!state.url) {
+    throw new Error('Closed tab has no URL');
+  }
+  return reopenTab({ url: state.url, pinned: state.pinned });
+};
+
+// Undo the newest operations in the log, newest first
+const undoOperations = async (count: number) => {
+  await ready;
+  const undone = await undoLog.take(count);
+  const tabIds: number[] = [];
+  for (const entry of undone) {
+    tabIds.push(...await undoEntry(entry, (state) => reopenUndoneTab(state, entry.at - UNDO_CLOSE_SLACK)));
+  }
+  return { undone, tabIds };
+};
+
+const whenReady = <Args extends unknown[]>(handler: (...args: Args) => void) =>
+  (...args: Args) => {
+    ready.then(() => handler(...args))
+      .catch((err: Error) => console.warn('Failed to handle event:', err.message));
+  };
+
+// Budget progress including the time the active tab has run up since the
+// last commit
+const getBudgetStatuses = async () => {
+  const budgets = await loadBudgets(chromeStorage);
+  const { timingData, activeTabId } = engine.getTimingSnapshot();
+  const activeUrl = activeTabId !== null ? engine.getTabInfoSnapshot()[activeTabId]?.url : undefined;
+  const live = { url: activeUrl, activeMs: activeTabId !== null ? timingData[activeTabId]?.currentActiveTime ?? 0 : 0 };
+  return { budgets, activeUrl, statuses: await budgetTracker.getStatuses(budgets, live) };
+};
+
+// Warn as budgets run low, block the domains of used up blocking budgets and
+// refresh the badge
+const checkBudgets = async () => {
+  const { budgets, activeUrl, statuses } = await getBudgetStatuses();
+  const enabledIds = new Set(budgets.filter((budget) => budget.enabled).map((budget) => budget.id));
+  const enabledStatuses = statuses.filter((status) => enabledIds.has(status.budgetId));
+  updateBadge(budgets, enabledStatuses, activeUrl);
+
+  // Check again when the active tab reaches its next threshold, even if no
+  // tab event arrives before then
+  const untilThreshold = getTimeToNextThreshold(budgets, enabledStatuses, activeUrl);
+  if (untilThreshold !== null) {
+    chrome.alarms.create(BUDGET_THRESHOLD_ALARM, { when: systemClock.now() + untilThreshold });
+  }
+
+  const crossed = await budgetTracker.takeCrossedThresholds(enabledStatuses);
+  crossed.forEach(({ budgetId, threshold }) => {
+    const budget = budgets.find((b) => b.id === budgetId);
+    if (budget) notifyBudget(budget, threshold);
+  });
+
+  const exhausted = new Set(enabledStatuses.filter((status) => status.usedMs >= status.limitMs).map((status) => status.budgetId));
+  const blocking = budgets.filter((budget) => budget.block && exhausted.has(budget.id));
+  if (blocking.length === 0) return;
+  const tabs = await queryTabs({});
+  await Promise.all(tabs.map((tab) => {
+    const budget = findBudgetsFor(blocking, tab.url)[0];
+    return budget && tab.id !== undefined ? updateTab(tab.id, { url: getBlockedPageUrl(budget, tab.url!) }) : undefined;
+  }));
+};
+
+const runBudgetCheck = () => {
+  checkBudgets().catch((err: Error) => console.warn('Failed to check budgets:', err.message));
+};
+
+// Capture info for all existing tabs and start tracking the active one
+const syncAllTabs = () => {
+  queryTabs({})
+    .then((tabs) => engine.syncTabs(tabs))
+    .catch((err: Error) => console.warn('Failed to query tabs:', err.message));
+};
+
+chrome.tabs.onActivated.addListener(whenReady((activeInfo) => {
+  engine.tabActivated(activeInfo.tabId);
+  runBudgetCheck();
+}));
+
+// Tabs that have not navigated to their first real page yet
+const newTabIds = new Set<number>();
+
+// Switch to an already open copy instead of keeping a new duplicate tab. Tabs
+// the extension brought back itself are kept.
+const checkNewTabForDuplicate = (tabId: number, url: string) => {
+  if (url.startsWith('chrome://')) return;
+  newTabIds.delete(tabId);
+  Promise.all([loadDuplicateSettings(chromeStorage), wasOpenedHere(tabId)])
+    .then(([settings, openedHere]) => settings.autoFocusExisting && !openedHere && focusExistingDuplicate(tabId, url, settings))
+    .catch((err: Error) => console.warn('Failed to focus existing tab:', err.message));
+};
+
+// Record where every tab in the window now sits, so closed tabs can be put
+// back in place
+const refreshPositions = (windowId: number) => {
+  queryTabs({ windowId })
+    .then(engine.updatePositions)
+    .catch((err: Error) => console.warn('Failed to query window tabs:', err.message));
+};
+
+chrome.tabs.onCreated.addListener(whenReady((tab) => {
+  engine.tabCreated(tab);
+  if (tab.id !== undefined) {
+    newTabIds.add(tab.id);
+  }
+  refreshPositions(tab.windowId);
+}));
+
+chrome.tabs.onUpdated.addListener(whenReady((tabId, changeInfo, tab) => {
+  engine.tabUpdated(tabId, changeInfo, tab);
+  if (changeInfo.url && newTabIds.has(tabId)) {
+    checkNewTabForDuplicate(tabId, changeInfo.url);
+  }
+  if (changeInfo.url) {
+    runBudgetCheck();
+  }
+  if (changeInfo.pinned !== undefined) {
+    refreshPositions(tab.windowId);
+  }
+}));
+
+chrome.tabs.onRemoved.addListener(whenReady((tabId, removeInfo) => {
+  engine.tabRemoved(tabId);
+  newTabIds.delete(tabId);
+  forgetOpenedTab(tabId);
+  if (!removeInfo.isWindowClosing) {
+    refreshPositions(removeInfo.windowId);
+  }
+}));
+
+chrome.tabs.onMoved.addListener(whenReady((_tabId, moveInfo) => refreshPositions(moveInfo.windowId)));
+chrome.tabs.onAttached.addListener(whenReady((_tabId, attachInfo) => refreshPositions(attachInfo.newWindowId)));
+chrome.tabs.onDetached.addListener(whenReady((_tabId, detachInfo) => refreshPositions(detachInfo.oldWindowId)));
+
+// Pause tracking while the system is idle or locked
+let idleSettings = DEFAULT_IDLE_SETTINGS;
+
+const applyIdle = (settings: IdleSettings) => {
+  idleSettings = settings;
+  applyIdleSettings(settings);
+};
+
+loadIdleSettings(chromeStorage)
+  .then(applyIdle)
+  .catch((err: Error) => console.warn('Failed to load idle settings:', err.message));
+
+// "idle" arrives once there has been no input for the threshold, which is
+// then no longer counted as active; locking is reported as it happens
+chrome.idle.onStateChanged.addListener(whenReady((state) => {
+  if (state === 'active') {
+    engine.idleEnded();
+  } else {
+    engine.idleStarted(state === 'idle' ? idleSettings.thresholdSeconds * 1000 : 0);
+  }
+}));
+
+// Pause tracking while no browser window has focus
+chrome.windows.onFocusChanged.addListener(whenReady((windowId) => {
+  if (windowId === chrome.windows.WINDOW_ID_NONE) {
+    engine.focusLost();
+    return;
+  }
+  queryTabs({ active: true, windowId })
+    .then((tabs) => engine.focusGained(tabs[0]?.id))
+    .catch((err: Error) => console.warn('Failed to query active tab:', err.message));
+}));
+
+// Settings saved on the options page take effect without a reload. When
+// resuming or changing which pages are tracked, every tab is synced to pick up
+// pages that just became trackable and drop newly excluded ones.
+const SYNCED_SETTINGS: (keyof TrackingSettings)[] = [
+  'trackBrowserPages',
+  'trackingPaused',
+  'excludedDomains',
+  'excludeIncognito',
+  'excludedTabMode',
+  'stripUrlDetails',
+];
+
+watchTrackingSettings(whenReady((settings) => {
+  const pagesChanged = SYNCED_SETTINGS.some((key) => settings[key] !== trackingSettings[key]);
+  applyTrackingSettings(settings);
+  if (pagesChanged) {
+    syncAllTabs();
+  }
+}));
+
+chrome.runtime.onStartup.addListener(whenReady(syncAllTabs));
+chrome.runtime.onInstalled.addListener(whenReady(syncAllTabs));
+
+// Message handling for popup communication
+chrome.runtime.onMessage.addListener(createMessageListener({
+  getTimingData: async () => {
+    await ready;
+    return engine.getTimingSnapshot();
+  },
+  updateTabTiming: async ({ tabId, timingData }) => {
+    await ready;
+    engine.setTabTiming(tabId, timingData);
+    return { success: true };
+  },
+  getClosedTabs: async ({ from, to, cursor, limit }) => {
+    await ready;
+    return closedTabsStore.query({ from, to, cursor, limit });
+  },
+  getTrackingSettings: async () => ({ settings: await loadTrackingSettings(chromeStorage) }),
+  setTrackingSettings: async ({ settings }) => {
+    await saveTrackingSettings(chromeStorage, settings);
+    return { settings };
+  },
+  getRetentionPolicy: async () => ({ policy: await getRetentionPolicy() }),
+  setRetentionPolicy: async ({ policy }) => {
+    await chromeStorage.set({ historyRetention: policy });
+    await pruneHistory();
+    return { policy };
+  },
+  reopenTab: async ({ historyId }) => {
+    await ready;
+    const closed = await closedTabsStore.get(historyId);
+    if (!closed) {
+      throw new Error('Closed tab not found in history');
+    }
+    return reopenClosedTab(closed);
+  },
+  restoreRecentlyClosed: async ({ minutes }) => {
+    await ready;
+    const now = systemClock.now();
+    const closedTabs = await closedTabsStore.getRange(now - minutes * 60 * 1000, now);
+    // Newest first, undoing the closes in reverse so each index is valid again
+    const usedSessionIds = new Set<string>();
+    const tabIds: number[] = [];
+    for (const closed of closedTabs.reverse()) {
+      if (!closed.url || closed.url === 'Unknown' || closed.url === EXCLUDED_URL) continue;
+      tabIds.push((await reopenClosedTab(closed, usedSessionIds)).tabId);
+    }
+    return { tabIds };
+  },
+  getDomainStats: async ({ range }) => {
+    await ready;
+    const now = systemClock.now();
+    const from = getRangeStart(range, now, trackingSettings.dayStartHour);
+    const openTabs = { timingData: engine.getTimingSnapshot().timingData, tabInfo: engine.getTabInfoSnapshot() };
+    const closedTabs = await closedTabsStore.getRange(from, now);
+    return { range, from, to: now, domains: aggregateByDomain(openTabs, closedTabs, from, now) };
+  },
+  listWorkspaces: async () => ({ workspaces: await workspaceStore.list() }),
+  saveWorkspace: async ({ name, scope }) => ({
+    workspace: await workspaceStore.create(name.trim(), await captureWindows(scope)),
+  }),
+  renameWorkspace: async ({ id, name }) => ({ workspace: await workspaceStore.rename(id, name.trim()) }),
+  updateWorkspace: async ({ id, scope }) => ({
+    workspace: await workspaceStore.replaceWindows(id, await captureWindows(scope)),
+  }),
+  deleteWorkspace: async ({ id }) => {
+    await workspaceStore.remove(id);
+    return { id };
+  },
+  restoreWorkspace: async ({ id, mode }) => ({
+    tabIds: await restoreWorkspace(await workspaceStore.get(id), mode),
+  }),
+  getDuplicates: async () => ({
+    groups: findDuplicateGroups(await queryTabs({}), await loadDuplicateSettings(chromeStorage)),
+  }),
+  // Keep the most used copy of each group and fold the others' timing into it
+  closeDuplicates: async ({ url }) => {
+    await ready;
+    const groups = findDuplicateGroups(await queryTabs({}), await loadDuplicateSettings(chromeStorage))
+      .filter((group) => url === undefined || group.url === url);
+    const { timingData } = engine.getTimingSnapshot();
+    const closedTabIds: number[] = [];
+    const survivorIds: number[] = [];
+    const merges = groups.map(({ tabIds }) => {
+      const survivorId = pickSurvivor(tabIds, timingData);
+      const others = tabIds.filter((tabId) => tabId !== survivorId);
+      survivorIds.push(survivorId);
+      closedTabIds.push(...others);
+      return { survivorId, others };
+    });
+    if (closedTabIds.length === 0) {
+      return { closedTabIds, survivorIds };
+    }
+    // The copies' timing is merged only once they are gone, so copies that
+    // fail to close keep theirs
+    engine.holdTabs(closedTabIds);
+    try {
+      await withUndo('close', describeTabs('Closed duplicate', closedTabIds.length), closedTabIds, () =>
+        removeTabs(closedTabIds));
+    } finally {
+      const openTabIds = new Set((await queryTabs({})).map((tab) => tab.id));
+      merges.forEach(({ survivorId, others }) => {
+        engine.mergeTabTiming(survivorId, others.filter((tabId) => !openTabIds.has(tabId)));
+        engine.releaseTabs(others.filter((tabId) => openTabIds.has(tabId)));
+      });
+    }
+    return { closedTabIds, survivorIds };
+  },
+  getDuplicateSettings: async () => ({ settings: await loadDuplicateSettings(chromeStorage) }),
+  setDuplicateSettings: async ({ settings }) => {
+    await saveDuplicateSettings(chromeStorage, settings);
+    return { settings };
+  },
+  getIdleSettings: async () => ({ settings: await loadIdleSettings(chromeStorage) }),
+  setIdleSettings: async ({ settings }) => {
+    await saveIdleSettings(chromeStorage, settings);
+    applyIdle(settings);
+    return { settings };
+  },
+  getRules: async () => ({ rules: await loadRules(chromeStorage) }),
+  setRules: async ({ rules }) => {
+    await saveRules(chromeStorage, rules);
+    return { rules };
+  },
+  runRules: async () => {
+    await ready;
+    return { entries: await runRules(chromeStorage, systemClock, engine) };
+  },
+  getRuleLog: async () => ({ entries: await loadRuleLog(chromeStorage) }),
+  clearRuleLog: async () => {
+    await clearRuleLog(chromeStorage);
+    return { success: true };
+  },
+  getTabGroups: async () => {
+    await ready;
+    return { groups: await listTabGroups(engine.getTimingSnapshot().timingData) };
+  },
+  groupTabs: async ({ tabIds, groupId, title, color }) => ({
+    groupId: await withUndo('group', describeTabs('Grouped', tabIds.length), tabIds, () =>
+      addTabsToGroup(tabIds, groupId, { title, color })),
+  }),
+  ungroupTabs: async ({ tabIds }) => {
+    await withUndo('group', describeTabs('Ungrouped', tabIds.length), tabIds, () => ungroupTabs(tabIds));
+    return { tabIds };
+  },
+  updateTabGroup: async ({ groupId, title, color, collapsed }) => {
+    await updateTabGroup(groupId, { title, color, collapsed });
+    return { groupId };
+  },
+  moveTab: async ({ tabId, targetTabId, placement, groupId }) => {
+    await withUndo('move', 'Moved tab', [tabId], () => moveTabNextTo(tabId, targetTabId, placement, groupId));
+    return { tabId };
+  },
+  moveTabsToNewWindow: async ({ tabIds }) => ({
+    windowId: await withUndo('move', describeTabs('Moved', tabIds.length), tabIds, () => moveTabsToNewWindow(tabIds)),
+  }),
+  mergeWindows: () => withUndo('move', 'Merged windows', undefined, mergeAllWindows),
+  closeTabs: async ({ tabIds }) => {
+    await withUndo('close', describeTabs('Closed', tabIds.length), tabIds, () => removeTabs(tabIds));
+    return { tabIds };
+  },
+  // Pinning and muting are logged separately so each can be undone alone
+  updateTabs: async ({ tabIds, pinned, muted }) => {
+    if (pinned !== undefined) {
+      await withUndo('pin', describeTabs(pinned ? 'Pinned' : 'Unpinned', tabIds.length), tabIds, () =>
+        Promise.all(tabIds.map((tabId) => updateTab(tabId, { pinned }))));
+    }
+    if (muted !== undefined) {
+      await withUndo('mute', describeTabs(muted ? 'Muted' : 'Unmuted', tabIds.length), tabIds, () =>
+        Promise.all(tabIds.map((tabId) => updateTab(tabId, { muted }))));
+    }
+    return { tabIds };
+  },
+  // Silence every tab but the given one; tabs already muted are left alone
+  muteOtherTabs: async ({ tabId }) => {
+    const tabIds = (await queryTabs({}))
+      .filter((tab) => tab.id !== undefined && tab.id !== tabId && !tab.mutedInfo?.muted)
+      .map((tab) => tab.id!);
+    await withUndo('mute', describeTabs('Muted', tabIds.length), tabIds, () =>
+      Promise.all(tabIds.map((id) => updateTab(id, { muted: true }))));
+    return { tabIds };
+  },
+  reorderTabs: async ({ windowId, tabIds }) => ({
+    windowId,
+    previousTabIds: await withUndo('move', 'Reordered tabs', tabIds, () => reorderWindowTabs(windowId, tabIds)),
+  }),
+  moveTabsToWindow: async ({ tabIds, windowId }) => ({
+    windowId: await withUndo('move', describeTabs('Moved', tabIds.length), tabIds, () =>
+      moveTabsToWindow(tabIds, windowId)),
+  }),
+  bookmarkTabs: ({ tabIds, folder }) => bookmarkTabs(tabIds, folder.trim()),
+  getBudgets: async () => {
+    await ready;
+    const { budgets, statuses } = await getBudgetStatuses();
+    return { budgets, statuses };
+  },
+  setBudgets: async ({ budgets }) => {
+    await saveBudgets(chromeStorage, budgets);
+    await ready;
+    runBudgetCheck();
+    return { budgets, statuses: (await getBudgetStatuses()).statuses };
+  },
+  getSavedSearches: async () => ({ searches: await loadSavedSearches(chromeStorage) }),
+  setSavedSearches: async ({ searches }) => {
+    await saveSavedSearches(chromeStorage, searches);
+    return { searches };
+  },
+  exportBackup: async () => {
+    await ready;
+    return { backup: await createBackup(backupSources) };
+  },
+  previewImport: async ({ backup, mode }) => {
+    await ready;
+    return { summary: summarizeImport(await createBackup(backupSources), backup, mode) };
+  },
+  importBackup: async ({ backup, mode }) => {
+    await ready;
+    const summary = await applyBackup(backupSources, backup, mode);
+    syncAllTabs();
+    return { summary };
+  },
+  // Purge everything recorded about a site and its subdomains: timing, closed
+  // history, the rule and undo logs, saved workspaces and the usage of the
+  // budgets covering it
+  forgetSite: async ({ hostname }) => {
+    await ready;
+    const matches = (url: string) => matchesDomainPattern(getHostname(url), `*.${hostname}`);
+    const budgetIds = (await loadBudgets(chromeStorage))
+      .filter((budget) => matchesDomainPattern(hostname, budget.domainPattern))
+      .map((budget) => budget.id);
+    await Promise.all([
+      forgetRuleLogPages(chromeStorage, matches),
+      undoLog.forgetPages(matches),
+      workspaceStore.forgetPages(matches),
+      budgetTracker.forgetUsage(budgetIds),
+    ]);
+    return {
+      hostname,
+      removedTabs: engine.forgetPages(matches),
+      removedClosedTabs: await closedTabsStore.forgetPages(matches),
+    };
+  },
+  getUndoLog: async () => ({ entries: await undoLog.list() }),
+  undo: ({ count }) => undoOperations(count),
+}));
+
+// The keyboard shortcut undoes one operation per press and works whether or
+// not the popup is open
+chrome.commands.onCommand.addListener((command) => {
+  if (command !== 'undo-tab-operation') return;
+  undoOperations(1).catch((err: Error) => console.warn('Failed to undo tab operation:', err.message));
+});
+
+// Open tabs and the tabs closed since the tracking day began that match what
+// was typed after the omnibox keyword
+const findOmniboxCandidates = async (text: string) => {
+  await ready;
+  const now = systemClock.now();
+  const closedToday = await closedTabsStore.getRange(getDayStart(now, trackingSettings.dayStartHour), now);
+  return getOmniboxCandidates(text, engine.getTabInfoSnapshot(), engine.getTimingSnapshot(), closedToday, now, trackingSettings.dayStartHour);
+};
+
+// Switch to an open tab, or reopen a closed one the way the history view does
+const openOmniboxTarget = async (target: OmniboxTarget) => {
+  if (target.kind === 'closed') {
+    const closed = await closedTabsStore.get(target.historyId);
+    if (!closed) {
+      throw new Error('Closed tab not found in history');
+    }
+    await reopenClosedTab(closed);
+    return;
+  }
+  const tab = await updateTab(target.tabId, { active: true });
+  await focusWindow(tab.windowId);
+};
+
+chrome.omnibox.setDefaultSuggestion({ description: 'Switch to the best matching tab for <match>%s</match>' });
+
+chrome.omnibox.onInputChanged.addListener((text, suggest) => {
+  findOmniboxCandidates(text)
+    .then((candidates) => suggest(toSuggestions(candidates)))
+    .catch((err: Error) => console.warn('Failed to suggest tabs:', err.message));
+});
+
+// A chosen suggestion names its tab; plain text entered with the keyword goes
+// to the best match, as the default suggestion says
+chrome.omnibox.onInputEntered.addListener((text) => {
+  const target = parseOmniboxTarget(text);
+  (target ? Promise.resolve(target) : findOmniboxCandidates(text).then((candidates) => candidates[0]?.target))
+    .then((best) => (best ? openOmniboxTarget(best) : undefined))
+    .catch((err: Error) => console.warn('Failed to open tab from the address bar:', err.message));
+});
+
+// Periodic work runs from alarms: the worker is suspended after a short idle
+// spell and its timers go with it, while alarms wake it up again. An alarm is
+// only created when missing or changed, so a restarted worker does not keep
+// pushing the next run back.
+const scheduleAlarm = async (name: string, periodInMinutes: number) => {
+  const alarm = await getAlarm(name);
+  if (alarm?.periodInMinutes !== periodInMinutes) {
+    chrome.alarms.create(name, { periodInMinutes });
+  }
+};
+
+const ALARM_HANDLERS: Record<string, () => void> = {
+  [PRUNE_ALARM]: runPrune,
+  [BUDGET_ALARM]: runBudgetCheck,
+  [BUDGET_THRESHOLD_ALARM]: runBudgetCheck,
+  [RULES_ALARM]: () => {
+    runRules(chromeStorage, systemClock, engine)
+      .catch((err: Error) => console.warn('Failed to apply tab rules:', err.message));
+  },
+};
+
+chrome.alarms.onAlarm.addListener(whenReady((alarm) => ALARM_HANDLERS[alarm.name]?.()));
+
+scheduleAlarm(PRUNE_ALARM, PRUNE_PERIOD_MINUTES)
+  .catch((err: Error) => console.warn('Failed to schedule history pruning:', err.message));
+scheduleAlarm(RULES_ALARM, RULES_PERIOD_MINUTES)
+  .catch((err: Error) => console.warn('Failed to schedule tab rules:', err.message));
+scheduleAlarm(BUDGET_ALARM, BUDGET_PERIOD_MINUTES)
+  .catch((err: Error) => console.warn('Failed to schedule budget checks:', err.message));
+
+// The history may have outgrown its limits while the worker was not running
+ready.then(runPrune);
+
+// Commit the running intervals and write them out before the worker is shut down
+chrome.runtime.onSuspend.addListener(() => {
+  engine.flush();
+  engineStorage.flush().catch((err: Error) => console.warn('Failed to save data:', err.message));
+});
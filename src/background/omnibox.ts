@@ -0,0 +1,90 @@
+// Address bar keyword: "tm <query>" suggests open tabs to switch to and tabs
+// closed today to reopen, ranked with the same search as the popup
+import { filterTabs } from '../shared/tabFilters';
+import type { ClosedTabData, TabInfo, TabTiming } from '../shared/types';
+import { EXCLUDED_URL } from '../shared/url';
+
+const MAX_SUGGESTIONS = 8;
+
+// A suggestion's content names the tab it leads to, e.g. "tab:12" for an open
+// tab or "closed:40" for a history entry
+export type OmniboxTarget = { kind: 'tab'; tabId: number } | { kind: 'closed'; historyId: number };
+
+interface Candidate {
+  target: OmniboxTarget;
+  title?: string;
+  url?: string;
+  pinned?: boolean;
+  openedAt: number;
+  totalActiveTime: number;
+  lastActivatedAt?: number;
+  closedAt?: number;
+}
+
+const TARGET_PATTERN = /^(tab|closed):(\d+)$/;
+
+const toContent = (target: OmniboxTarget): string =>
+  target.kind === 'tab' ? `tab:${target.tabId}` : `closed:${target.historyId}`;
+
+// The tab a chosen suggestion leads to, or null for text the user typed
+export const parseOmniboxTarget = (content: string): OmniboxTarget | null => {
+  const match = TARGET_PATTERN.exec(content);
+  if (!match) return null;
+  const id = Number(match[2]);
+  return match[1] === 'tab' ? { kind: 'tab', tabId: id } : { kind: 'closed', historyId: id };
+};
+
+// Descriptions are XML, so markup characters in titles must be escaped
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const describe = (candidate: Candidate): string => {
+  const title = escapeXml(candidate.title || candidate.url || 'Untitled Tab');
+  const prefix = candidate.target.kind === 'tab' ? 'Switch to' : 'Reopen';
+  return `<dim>${prefix}:</dim> ${title} - <url>${escapeXml(candidate.url ?? '')}</url>`;
+};
+
+// Open tabs and reopenable closed tabs matching the query, best match first.
+// Without a query, the most recently used open tabs come first, then the
+// most recently closed.
+export const getOmniboxCandidates = (
+  query: string,
+  tabInfo: Record<number, TabInfo>,
+  timingData: Record<number, TabTiming>,
+  closedTabs: ClosedTabData[],
+  now: number,
+  dayStartHour: number
+): Candidate[] => {
+  const openCandidates = Object.entries(tabInfo)
+    .filter(([, info]) => info.url !== EXCLUDED_URL)
+    .map(([tabId, info]): Candidate => {
+      const timing = timingData[Number(tabId)];
+      return {
+        target: { kind: 'tab', tabId: Number(tabId) },
+        title: info.title,
+        url: info.url,
+        pinned: info.pinned,
+        openedAt: timing?.openedAt ?? info.lastUpdated,
+        totalActiveTime: (timing?.totalActiveTime ?? 0) + (timing?.currentActiveTime ?? 0),
+        lastActivatedAt: timing?.lastActivatedAt,
+      };
+    })
+    .sort((a, b) => (b.lastActivatedAt ?? 0) - (a.lastActivatedAt ?? 0));
+  const closedCandidates = closedTabs
+    .filter((tab): tab is ClosedTabData & { historyId: number } =>
+      tab.historyId !== undefined && !!tab.url && tab.url !== 'Unknown' && tab.url !== EXCLUDED_URL)
+    .sort((a, b) => b.closedAt - a.closedAt)
+    .map((tab): Candidate => ({
+      target: { kind: 'closed', historyId: tab.historyId },
+      title: tab.title,
+      url: tab.url,
+      pinned: tab.pinned,
+      openedAt: tab.openedAt,
+      totalActiveTime: tab.totalActiveTime,
+      closedAt: tab.closedAt,
+    }));
+  return filterTabs([...openCandidates, ...closedCandidates], query, now, dayStartHour).slice(0, MAX_SUGGESTIONS);
+};
+
+export const toSuggestions = (candidates: Candidate[]): chrome.omnibox.SuggestResult[] =>
+  candidates.map((candidate) => ({ content: toContent(candidate.target), description: describe(candidate) }));
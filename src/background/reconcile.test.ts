@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { matchRestoredTabs, type StoredTab } from './reconcile';
+import type { TabSnapshot } from './timingEngine';
+
+const stored = (tabId: number, url: string, windowId: number, index: number): StoredTab => ({
+  tabId,
+  info: { title: url, url, lastUpdated: 0, windowId, index },
+});
+
+const open = (id: number, url: string, windowId: number, index: number): TabSnapshot => ({
+  id,
+  url,
+  windowId,
+  index,
+  active: false,
+});
+
+describe('matchRestoredTabs', () => {
+  it('keeps entries whose tab is still open with the same URL', () => {
+    const matches = matchRestoredTabs([stored(1, 'https://a.com/', 1, 0)], [open(1, 'https://a.com/', 1, 0)]);
+    expect([...matches]).toEqual([[1, 1]]);
+  });
+
+  it('matches tabs with a unique URL under their new ids', () => {
+    const matches = matchRestoredTabs(
+      [stored(1, 'https://a.com/', 1, 0), stored(2, 'https://b.com/', 1, 1)],
+      [open(11, 'https://b.com/', 5, 0), open(12, 'https://a.com/', 5, 1), open(13, 'https://new.com/', 5, 2)]
+    );
+    expect(matches.get(11)).toBe(2);
+    expect(matches.get(12)).toBe(1);
+    expect(matches.has(13)).toBe(false);
+  });
+
+  it('matches duplicate URLs in one window by position', () => {
+    const url = 'https://dup.com/';
+    const matches = matchRestoredTabs(
+      [stored(1, url, 1, 0), stored(2, url, 1, 3), stored(3, url, 1, 6)],
+      [open(11, url, 5, 6), open(12, url, 5, 0), open(13, url, 5, 3)]
+    );
+    expect(matches.get(11)).toBe(3);
+    expect(matches.get(12)).toBe(1);
+    expect(matches.get(13)).toBe(2);
+  });
+
+  it('uses the windows of uniquely matched tabs to place duplicates', () => {
+    const url = 'https://dup.com/';
+    // Old window 1 became window 200 and old window 2 became window 100,
+    // and the duplicates sit at the same position in both
+    const matches = matchRestoredTabs(
+      [stored(1, 'https://a.com/', 1, 0), stored(2, url, 1, 1), stored(3, 'https://b.com/', 2, 0), stored(4, url, 2, 1)],
+      [open(11, 'https://b.com/', 100, 0), open(12, url, 100, 1), open(13, 'https://a.com/', 200, 0), open(14, url, 200, 1)]
+    );
+    expect(matches.get(11)).toBe(3);
+    expect(matches.get(13)).toBe(1);
+    expect(matches.get(12)).toBe(4);
+    expect(matches.get(14)).toBe(2);
+  });
+
+  it('prefers the right window over a closer position', () => {
+    const url = 'https://dup.com/';
+    const matches = matchRestoredTabs(
+      [stored(1, 'https://a.com/', 1, 0), stored(2, url, 1, 5), stored(3, url, 2, 1)],
+      [open(11, 'https://a.com/', 100, 0), open(12, url, 100, 1)]
+    );
+    expect(matches.get(12)).toBe(2);
+  });
+
+  it('leaves extra tabs with a duplicated URL unmatched', () => {
+    const url = 'https://dup.com/';
+    const matches = matchRestoredTabs(
+      [stored(1, url, 1, 0)],
+      [open(11, url, 5, 0), open(12, url, 5, 1)]
+    );
+    expect(matches.get(11)).toBe(1);
+    expect(matches.has(12)).toBe(false);
+  });
+});
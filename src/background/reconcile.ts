@@ -0,0 +1,81 @@
+// Matching of the tabs restored after a browser restart to the entries stored
+// for them in the previous session. Chrome assigns new tab and window ids on
+// every start, so tabs are recognised by URL, with their window and position
+// breaking ties between tabs that share a URL.
+import type { TabInfo } from '../shared/types';
+import type { TabSnapshot } from './timingEngine';
+
+export interface StoredTab {
+  tabId: number;
+  info: TabInfo;
+}
+
+// Pairs with a higher score are matched first; the window is worth more than
+// any difference in position
+const WINDOW_MATCH_SCORE = 1000;
+
+// Map each open tab id to the id of the stored entry it continues.
+// Entries whose tab id is still open with the same URL are kept as they are,
+// which makes reconciling twice in one session harmless.
+export const matchRestoredTabs = (stored: StoredTab[], tabs: TabSnapshot[]): Map<number, number> => {
+  const matches = new Map<number, number>();
+  const usedIds = new Set<number>();
+  const storedById = new Map(stored.map((entry) => [entry.tabId, entry]));
+
+  const unmatchedTabs = tabs.filter((tab) => {
+    if (tab.id === undefined || !tab.url) return false;
+    if (storedById.get(tab.id)?.info.url === tab.url) {
+      matches.set(tab.id, tab.id);
+      usedIds.add(tab.id);
+      return false;
+    }
+    return true;
+  });
+
+  const candidatesByUrl = new Map<string, StoredTab[]>();
+  stored
+    .filter((entry) => !usedIds.has(entry.tabId))
+    .forEach((entry) => candidatesByUrl.set(entry.info.url, [...(candidatesByUrl.get(entry.info.url) ?? []), entry]));
+
+  // Tabs whose URL is unique on both sides are matched outright, and vote on
+  // which old window became which new one
+  const windowVotes = new Map<number, Map<number, number>>();
+  const ambiguousTabs = unmatchedTabs.filter((tab) => {
+    const candidates = candidatesByUrl.get(tab.url!) ?? [];
+    const sameUrlTabs = unmatchedTabs.filter((other) => other.url === tab.url);
+    if (candidates.length !== 1 || sameUrlTabs.length !== 1) return candidates.length > 0;
+    const [entry] = candidates;
+    matches.set(tab.id!, entry.tabId);
+    usedIds.add(entry.tabId);
+    if (entry.info.windowId !== undefined && tab.windowId !== undefined) {
+      const votes = windowVotes.get(entry.info.windowId) ?? new Map<number, number>();
+      votes.set(tab.windowId, (votes.get(tab.windowId) ?? 0) + 1);
+      windowVotes.set(entry.info.windowId, votes);
+    }
+    return false;
+  });
+
+  // Each old window maps to the new window most of its unique tabs went to
+  const windowMap = new Map<number, number>();
+  windowVotes.forEach((votes, oldWindowId) => {
+    const [newWindowId] = [...votes.entries()].sort((a, b) => b[1] - a[1])[0];
+    windowMap.set(oldWindowId, newWindowId);
+  });
+
+  const pairs = ambiguousTabs.flatMap((tab) =>
+    (candidatesByUrl.get(tab.url!) ?? []).map((entry) => {
+      const sameWindow = entry.info.windowId !== undefined && windowMap.get(entry.info.windowId) === tab.windowId;
+      const distance = Math.abs((entry.info.index ?? 0) - (tab.index ?? 0));
+      return { tabId: tab.id!, storedId: entry.tabId, score: (sameWindow ? WINDOW_MATCH_SCORE : 0) - distance };
+    })
+  );
+  pairs
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ tabId, storedId }) => {
+      if (matches.has(tabId) || usedIds.has(storedId)) return;
+      matches.set(tabId, storedId);
+      usedIds.add(storedId);
+    });
+
+  return matches;
+};
@@ -0,0 +1,126 @@
+// Reopening tabs: single closed tabs as well as whole windows of tabs
+import type { ClosedTabData } from '../shared/types';
+import { EXCLUDED_URL, stripUrlDetails } from '../shared/url';
+import { createTab, createWindow, getAllWindows, getRecentlyClosed, removeTabs, restoreSession } from './adapters';
+
+// The most sessions the browser reports as recently closed
+const MAX_SESSIONS = 25;
+// How far a session's close time may be from the one recorded in history for
+// it to count as the same tab; sessions only keep whole seconds
+const SESSION_MATCH_MS = 5 * 1000;
+
+export interface ReopenTarget {
+  url: string;
+  windowId?: number;
+  index?: number;
+  pinned?: boolean;
+  active?: boolean;
+}
+
+// Tabs opened here, which are not the user's new tabs and so must not be
+// closed as duplicates. Their ids are only known once the browser replies,
+// possibly after the tab's first events, so checks wait for pending opens.
+const openedTabIds = new Set<number>();
+let opening: Promise<unknown> = Promise.resolve();
+
+const trackOpened = <T>(open: Promise<T>, getTabId: (result: T) => number | undefined): Promise<T> => {
+  const tracked = open.then((result) => {
+    const tabId = getTabId(result);
+    if (tabId !== undefined) {
+      openedTabIds.add(tabId);
+    }
+    return result;
+  });
+  opening = Promise.all([opening, tracked.catch(() => undefined)]);
+  return tracked;
+};
+
+// Whether the tab was reopened, restored or undone by the extension
+export const wasOpenedHere = async (tabId: number): Promise<boolean> => {
+  await opening;
+  return openedTabIds.has(tabId);
+};
+
+export const forgetOpenedTab = (tabId: number) => {
+  openedTabIds.delete(tabId);
+};
+
+// Open a tab in the given (or current) window and return its id
+export const reopenTab = async ({ url, windowId, index, pinned, active = false }: ReopenTarget): Promise<number> => {
+  const tab = await trackOpened(createTab({ url, windowId, index, pinned, active }), (created) => created.id);
+  if (tab.id === undefined) {
+    throw new Error('Created tab has no id');
+  }
+  return tab.id;
+};
+
+// The browser's own record of a closed tab, if it still has one. History may
+// hold the address without its query string and fragment, so the session's
+// address also counts as a match once stripped the same way.
+const findClosedSession = async (closed: ClosedTabData, usedSessionIds: Set<string>): Promise<string | undefined> => {
+  const sessions = await getRecentlyClosed(MAX_SESSIONS);
+  return sessions
+    .map((session) => ({ sessionId: session.tab?.sessionId, url: session.tab?.url, closedAt: session.lastModified * 1000 }))
+    .find(({ sessionId, url, closedAt }) =>
+      sessionId !== undefined &&
+      !usedSessionIds.has(sessionId) &&
+      !!url && (url === closed.url || stripUrlDetails(url) === closed.url) &&
+      Math.abs(closedAt - closed.closedAt) <= SESSION_MATCH_MS
+    )?.sessionId;
+};
+
+// Bring back a closed tab. Restoring the browser session keeps its
+// back/forward history; once the session is gone the tab is opened again at
+// its old index and pinned state, in its old window if that is still open.
+// Sessions already restored in the same batch are passed in so two closes of
+// the same page are not matched to one session.
+export const restoreClosedTab = async (
+  closed: ClosedTabData,
+  usedSessionIds = new Set<string>()
+): Promise<{ tabId: number; restoredFrom: 'session' | 'position' }> => {
+  if (!closed.url || closed.url === EXCLUDED_URL) {
+    throw new Error('Closed tab has no URL');
+  }
+  const sessionId = await findClosedSession(closed, usedSessionIds);
+  if (sessionId !== undefined) {
+    usedSessionIds.add(sessionId);
+    const restored = await trackOpened(restoreSession(sessionId), (session) => session.tab?.id);
+    if (restored.tab?.id !== undefined) {
+      return { tabId: restored.tab.id, restoredFrom: 'session' };
+    }
+  }
+  const windows = await getAllWindows();
+  const windowOpen = windows.some((window) => window.id === closed.windowId);
+  const tabId = await reopenTab({
+    url: closed.url,
+    windowId: windowOpen ? closed.windowId : undefined,
+    index: windowOpen ? closed.index : undefined,
+    pinned: closed.pinned,
+  });
+  return { tabId, restoredFrom: 'position' };
+};
+
+// Append tabs to a window one at a time so they keep their order
+export const reopenTabsInWindow = async (windowId: number, tabs: ReopenTarget[]): Promise<number[]> => {
+  const tabIds: number[] = [];
+  for (const tab of tabs) {
+    tabIds.push(await reopenTab({ ...tab, windowId }));
+  }
+  return tabIds;
+};
+
+// Open tabs, in order, in a newly created window
+export const reopenTabsInNewWindow = async (tabs: ReopenTarget[]): Promise<number[]> => {
+  if (tabs.length === 0) return [];
+  const window = await createWindow({ focused: true });
+  if (window.id === undefined) {
+    throw new Error('Created window has no id');
+  }
+  const placeholderIds = (window.tabs ?? []).map((tab) => tab.id).filter((id): id is number => id !== undefined);
+  const tabIds = await reopenTabsInWindow(window.id, tabs);
+  // Drop the new tab page the window was created with
+  if (placeholderIds.length > 0) {
+    await removeTabs(placeholderIds);
+  }
+  return tabIds;
+};
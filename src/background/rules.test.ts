@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { TabRule, TabTiming } from '../shared/types';
+import { findRuleMatches } from './rules';
+
+const MINUTE = 60 * 1000;
+const NOW = 100 * 60 * MINUTE;
+
+const rule = (overrides: Partial<TabRule>): TabRule => ({
+  id: 'rule',
+  name: 'Rule',
+  enabled: true,
+  domainPattern: '*',
+  inactiveMinutes: 30,
+  action: 'close',
+  exemptPinned: true,
+  exemptAudible: true,
+  ...overrides,
+});
+
+const tab = (id: number, url: string, overrides: Partial<chrome.tabs.Tab> = {}): chrome.tabs.Tab => ({
+  id,
+  url,
+  index: id,
+  windowId: 1,
+  active: false,
+  pinned: false,
+  groupId: -1,
+  ...overrides,
+});
+
+// Every tab was last used an hour ago unless given otherwise
+const usedAgo = (tabIds: number[], minutes = 60): Record<number, TabTiming> =>
+  Object.fromEntries(tabIds.map((tabId) => [tabId, { openedAt: 0, totalActiveTime: 0, lastActivatedAt: NOW - minutes * MINUTE }]));
+
+const matchedIds = (tabs: chrome.tabs.Tab[], rules: TabRule[], timing = usedAgo(tabs.map((t) => t.id!))) =>
+  findRuleMatches(tabs, rules, timing, {}, NOW).map((match) => match.tabId);
+
+describe('findRuleMatches', () => {
+  it('applies a wildcard pattern to the domain and its subdomains only', () => {
+    const tabs = [
+      tab(1, 'https://example.com/'),
+      tab(2, 'https://news.example.com/'),
+      tab(3, 'https://notexample.com/'),
+    ];
+    expect(matchedIds(tabs, [rule({ domainPattern: '*.example.com' })])).toEqual([1, 2]);
+  });
+
+  it('applies an exact host pattern to that host only', () => {
+    const tabs = [tab(1, 'https://www.example.com/'), tab(2, 'https://news.example.com/')];
+    expect(matchedIds(tabs, [rule({ domainPattern: 'example.com' })])).toEqual([1]);
+  });
+
+  it('leaves pinned and audible tabs alone unless the rule covers them', () => {
+    const tabs = [
+      tab(1, 'https://example.com/', { pinned: true }),
+      tab(2, 'https://example.com/', { audible: true }),
+      tab(3, 'https://example.com/'),
+    ];
+    expect(matchedIds(tabs, [rule({})])).toEqual([3]);
+    expect(matchedIds(tabs, [rule({ exemptPinned: false, exemptAudible: false })])).toEqual([1, 2, 3]);
+  });
+
+  it('never touches the active tab, browser pages or tabs used recently', () => {
+    const tabs = [
+      tab(1, 'https://example.com/', { active: true }),
+      tab(2, 'chrome://settings'),
+      tab(3, 'https://example.com/'),
+    ];
+    expect(matchedIds(tabs, [rule({})], { ...usedAgo([1, 2]), ...usedAgo([3], 10) })).toEqual([]);
+  });
+
+  it('lets a keep rule protect a domain from every other rule', () => {
+    const tabs = [tab(1, 'https://mail.example.com/'), tab(2, 'https://other.org/')];
+    const rules = [rule({ id: 'close' }), rule({ id: 'keep', action: 'keep', domainPattern: '*.example.com' })];
+    expect(matchedIds(tabs, rules)).toEqual([2]);
+  });
+
+  it('uses the first enabled rule in list order and skips disabled ones', () => {
+    const rules = [
+      rule({ id: 'off', enabled: false, action: 'archive' }),
+      rule({ id: 'late', inactiveMinutes: 120, action: 'archive' }),
+      rule({ id: 'discard', action: 'discard' }),
+      rule({ id: 'close' }),
+    ];
+    const [match] = findRuleMatches([tab(1, 'https://example.com/')], rules, usedAgo([1]), {}, NOW);
+    expect(match.rule.id).toBe('discard');
+
+    // A tab already discarded falls through to the next rule
+    const [next] = findRuleMatches([tab(1, 'https://example.com/', { discarded: true })], rules, usedAgo([1]), {}, NOW);
+    expect(next.rule.id).toBe('close');
+  });
+});
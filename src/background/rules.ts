@@ -0,0 +1,128 @@
+// User-defined rules that discard, close or archive tabs left inactive
+import type { RuleLogEntry, TabInfo, TabRule, TabTiming } from '../shared/types';
+import { getHostname, matchesDomainPattern } from '../shared/url';
+import { discardTab, queryTabs, removeTabs } from './adapters';
+import type { Clock, StorageAdapter, TimingEngine } from './timingEngine';
+
+const RULES_KEY = 'tabRules';
+const LOG_KEY = 'ruleLog';
+const MAX_LOG_ENTRIES = 200;
+
+export interface RuleMatch {
+  tabId: number;
+  tab: chrome.tabs.Tab;
+  rule: TabRule;
+  action: RuleLogEntry['action'];
+}
+
+export const loadRules = async (storage: StorageAdapter): Promise<TabRule[]> => {
+  const result = await storage.get([RULES_KEY]);
+  return Array.isArray(result[RULES_KEY]) ? (result[RULES_KEY] as TabRule[]) : [];
+};
+
+export const saveRules = (storage: StorageAdapter, rules: TabRule[]) => storage.set({ [RULES_KEY]: rules });
+
+// Newest first
+export const loadRuleLog = async (storage: StorageAdapter): Promise<RuleLogEntry[]> => {
+  const result = await storage.get([LOG_KEY]);
+  return Array.isArray(result[LOG_KEY]) ? (result[LOG_KEY] as RuleLogEntry[]) : [];
+};
+
+const appendRuleLog = async (storage: StorageAdapter, entries: RuleLogEntry[]) => {
+  if (entries.length === 0) return;
+  const log = await loadRuleLog(storage);
+  await storage.set({ [LOG_KEY]: [...[...entries].reverse(), ...log].slice(0, MAX_LOG_ENTRIES) });
+};
+
+export const clearRuleLog = (storage: StorageAdapter) => storage.remove([LOG_KEY]);
+
+// Drop the log entries of tabs on matching pages
+export const forgetRuleLogPages = async (storage: StorageAdapter, matches: (url: string) => boolean) => {
+  const log = await loadRuleLog(storage);
+  const kept = log.filter((entry) => !matches(entry.url));
+  if (kept.length < log.length) {
+    await storage.set({ [LOG_KEY]: kept });
+  }
+};
+
+// When the tab was last in use, falling back to when it was opened or first seen
+const lastUsedAt = (tabId: number, timingData: Record<number, TabTiming>, tabInfo: Record<number, TabInfo>) =>
+  timingData[tabId]?.lastActivatedAt ?? timingData[tabId]?.openedAt ?? tabInfo[tabId]?.lastUpdated;
+
+const isExempt = (tab: chrome.tabs.Tab, rule: TabRule): boolean =>
+  (rule.exemptPinned && tab.pinned) || (rule.exemptAudible && !!tab.audible);
+
+// The first enabled rule, in list order, that applies to each stale tab.
+// Active tabs and tabs matched by any "keep" rule are never touched.
+export const findRuleMatches = (
+  tabs: chrome.tabs.Tab[],
+  rules: TabRule[],
+  timingData: Record<number, TabTiming>,
+  tabInfo: Record<number, TabInfo>,
+  now: number
+): RuleMatch[] => {
+  const enabledRules = rules.filter((rule) => rule.enabled);
+  const matches: RuleMatch[] = [];
+  tabs.forEach((tab) => {
+    if (tab.id === undefined || tab.active || !tab.url || tab.url.startsWith('chrome://')) return;
+    const hostname = getHostname(tab.url);
+    const domainRules = enabledRules.filter((rule) => matchesDomainPattern(hostname, rule.domainPattern));
+    if (domainRules.some((rule) => rule.action === 'keep')) return;
+
+    const lastUsed = lastUsedAt(tab.id, timingData, tabInfo);
+    if (lastUsed === undefined) return;
+    const inactiveTime = now - lastUsed;
+    const rule = domainRules.find((rule) =>
+      inactiveTime >= rule.inactiveMinutes * 60 * 1000 &&
+      !isExempt(tab, rule) &&
+      !(rule.action === 'discard' && tab.discarded)
+    );
+    if (!rule || rule.action === 'keep') return;
+    matches.push({ tabId: tab.id, tab, rule, action: rule.action });
+  });
+  return matches;
+};
+
+// "close" forgets the tab first so it is not kept in the closed tab history;
+// "archive" closes it normally so it can be reopened from the history
+const applyRuleMatch = async ({ tabId, action }: RuleMatch, engine: TimingEngine) => {
+  if (action === 'discard') {
+    await discardTab(tabId);
+    return;
+  }
+  if (action === 'close') {
+    engine.forgetTabs([tabId]);
+  }
+  await removeTabs(tabId);
+};
+
+// Evaluate the rules against all open tabs, apply them and log what was done
+export const runRules = async (storage: StorageAdapter, clock: Clock, engine: TimingEngine): Promise<RuleLogEntry[]> => {
+  const rules = await loadRules(storage);
+  if (!rules.some((rule) => rule.enabled)) return [];
+
+  const { timingData } = engine.getTimingSnapshot();
+  const tabInfo = engine.getTabInfoSnapshot();
+  const matches = findRuleMatches(await queryTabs({}), rules, timingData, tabInfo, clock.now());
+  const entries: RuleLogEntry[] = [];
+  for (const match of matches) {
+    try {
+      await applyRuleMatch(match, engine);
+    } catch (err) {
+      console.warn(`Rule "${match.rule.name}" failed on tab ${match.tabId}:`, (err as Error).message);
+      continue;
+    }
+    entries.push({
+      id: crypto.randomUUID(),
+      ruleId: match.rule.id,
+      ruleName: match.rule.name,
+      action: match.action,
+      tabId: match.tabId,
+      title: match.tab.title || 'Untitled Tab',
+      url: match.tab.url ?? '',
+      at: clock.now(),
+    });
+  }
+  await appendRuleLog(storage, entries);
+  return entries;
+};
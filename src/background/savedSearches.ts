@@ -0,0 +1,13 @@
+// Search queries the user saved from the tab and history toolbars
+import type { SavedSearch } from '../shared/types';
+import type { StorageAdapter } from './timingEngine';
+
+const STORAGE_KEY = 'savedSearches';
+
+export const loadSavedSearches = async (storage: StorageAdapter): Promise<SavedSearch[]> => {
+  const result = await storage.get([STORAGE_KEY]);
+  return Array.isArray(result[STORAGE_KEY]) ? (result[STORAGE_KEY] as SavedSearch[]) : [];
+};
+
+export const saveSavedSearches = (storage: StorageAdapter, searches: SavedSearch[]) =>
+  storage.set({ [STORAGE_KEY]: searches });
@@ -0,0 +1,69 @@
+// Native tab groups with group-level timing totals
+import type { TabGroupColor, TabGroupSummary, TabTiming } from '../shared/types';
+import { getTab, groupTabs, moveTab, queryTabGroups, queryTabs, ungroupTabs, updateTabGroup } from './adapters';
+
+// Active time of a tab including the uncommitted time of the active one
+const getActiveTime = (timing?: TabTiming): number =>
+  timing ? timing.totalActiveTime + (timing.currentActiveTime ?? 0) : 0;
+
+// Each group with its tabs in tab strip order and their combined active time
+export const summarizeTabGroups = (
+  groups: chrome.tabGroups.TabGroup[],
+  tabs: chrome.tabs.Tab[],
+  timingData: Record<number, TabTiming>
+): TabGroupSummary[] =>
+  groups.map((group) => {
+    const tabIds = tabs
+      .filter((tab) => tab.groupId === group.id && tab.id !== undefined)
+      .sort((a, b) => a.index - b.index)
+      .map((tab) => tab.id!);
+    return {
+      id: group.id,
+      windowId: group.windowId,
+      title: group.title ?? '',
+      color: group.color,
+      collapsed: group.collapsed,
+      tabIds,
+      activeTime: tabIds.reduce((sum, tabId) => sum + getActiveTime(timingData[tabId]), 0),
+    };
+  });
+
+export const listTabGroups = async (timingData: Record<number, TabTiming>): Promise<TabGroupSummary[]> =>
+  summarizeTabGroups(await queryTabGroups({}), await queryTabs({}), timingData);
+
+// Add tabs to an existing group, or to a new one with an optional title and color
+export const addTabsToGroup = async (
+  tabIds: number[],
+  groupId?: number,
+  properties: { title?: string; color?: TabGroupColor } = {}
+): Promise<number> => {
+  if (groupId !== undefined) {
+    return groupTabs({ tabIds, groupId });
+  }
+  const newGroupId = await groupTabs({ tabIds });
+  if (properties.title !== undefined || properties.color !== undefined) {
+    await updateTabGroup(newGroupId, properties);
+  }
+  return newGroupId;
+};
+
+// Move a tab next to another one, possibly in another window, then make it
+// join the given group or, for a null group, leave whichever group it is in
+export const moveTabNextTo = async (
+  tabId: number,
+  targetTabId: number,
+  placement: 'before' | 'after',
+  groupId: number | null
+): Promise<void> => {
+  const [tab, target] = await Promise.all([getTab(tabId), getTab(targetTabId)]);
+  let index = placement === 'before' ? target.index : target.index + 1;
+  if (tab.windowId === target.windowId && tab.index < target.index) {
+    index -= 1;
+  }
+  const moved = await moveTab(tabId, { index, windowId: target.windowId });
+  if (groupId !== null) {
+    await groupTabs({ tabIds: [tabId], groupId });
+  } else if (moved.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE) {
+    await ungroupTabs([tabId]);
+  }
+};
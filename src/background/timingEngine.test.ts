@@ -0,0 +1,222 @@
+// Replays tab and window events against the engine with a fake clock and
+// in-memory storage, checking that active time is counted exactly once
+import { describe, expect, it } from 'vitest';
+import type { ClosedTabData } from '../shared/types';
+import { createBudgetTracker, loadBudgets, saveBudgets } from './budgets';
+import { createTimingEngine, type StorageAdapter, type TabSnapshot, type TimingEngineOptions } from './timingEngine';
+
+const SECOND = 1000;
+
+const createMemoryStorage = (): StorageAdapter => {
+  const items = new Map<string, unknown>();
+  return {
+    get: async (keys) => Object.fromEntries(keys.filter((key) => items.has(key)).map((key) => [key, items.get(key)])),
+    set: async (values) => {
+      Object.entries(values).forEach(([key, value]) => items.set(key, structuredClone(value)));
+    },
+    remove: async (keys) => {
+      keys.forEach((key) => items.delete(key));
+    },
+  };
+};
+
+type ActiveTimeCallbacks = Pick<TimingEngineOptions, 'onActiveTime' | 'onActiveTimeWithdrawn'>;
+
+const createReplay = () => {
+  let now = new Date(2024, 0, 15, 12).getTime();
+  const clock = { now: () => now };
+  const storage = createMemoryStorage();
+  const closed: ClosedTabData[] = [];
+  const start = async (callbacks: ActiveTimeCallbacks = {}) => {
+    const engine = createTimingEngine({
+      clock,
+      storage,
+      history: { add: async (tab) => void closed.push(tab) },
+      ...callbacks,
+    });
+    await engine.load();
+    return engine;
+  };
+  const advance = (milliseconds: number) => {
+    now += milliseconds;
+  };
+  // Let the fire-and-forget writes land before the worker "restarts"
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+  return { start, advance, settle, clock, storage, closed };
+};
+
+const TAB: TabSnapshot = { id: 1, url: 'https://example.com/', title: 'Example', windowId: 1, index: 0, active: true };
+const OTHER_TAB: TabSnapshot = { id: 2, url: 'https://example.org/', title: 'Other', windowId: 1, index: 1, active: false };
+
+type Engine = Awaited<ReturnType<ReturnType<typeof createReplay>['start']>>;
+
+const activeTimeOf = (engine: Engine, tabId: number) => {
+  const { timingData } = engine.getTimingSnapshot();
+  return timingData[tabId].totalActiveTime + (timingData[tabId].currentActiveTime ?? 0);
+};
+
+// Committed focus intervals must always add up to the committed total
+const intervalTimeOf = (engine: Engine, tabId: number) =>
+  (engine.getTimingSnapshot().timingData[tabId].activeIntervals ?? [])
+    .reduce((sum, interval) => sum + interval.end - interval.start, 0);
+
+describe('timing engine replay', () => {
+  it('counts focused time once across periodic saves, blur and refocus', async () => {
+    const replay = createReplay();
+    const engine = await replay.start();
+    engine.syncTabs([TAB]);
+
+    replay.advance(10 * SECOND);
+    engine.flush();
+    replay.advance(5 * SECOND);
+    engine.focusLost();
+    expect(activeTimeOf(engine, 1)).toBe(15 * SECOND);
+
+    // Time without focus is not active, and a second blur adds nothing
+    replay.advance(20 * SECOND);
+    engine.focusLost();
+    expect(activeTimeOf(engine, 1)).toBe(15 * SECOND);
+
+    engine.focusGained(1);
+    replay.advance(5 * SECOND);
+    engine.flush();
+    engine.flush();
+    expect(activeTimeOf(engine, 1)).toBe(20 * SECOND);
+  });
+
+  it('carries saved time over a worker restart without adding it again', async () => {
+    const replay = createReplay();
+    const first = await replay.start();
+    first.syncTabs([TAB]);
+    replay.advance(20 * SECOND);
+    first.flush();
+    await replay.settle();
+
+    // The restarted worker reloads the records and syncs the same tab
+    replay.advance(3 * SECOND);
+    const second = await replay.start();
+    second.syncTabs([TAB]);
+    expect(activeTimeOf(second, 1)).toBe(20 * SECOND);
+
+    replay.advance(10 * SECOND);
+    second.flush();
+    expect(activeTimeOf(second, 1)).toBe(30 * SECOND);
+
+    second.tabRemoved(1);
+    expect(replay.closed).toHaveLength(1);
+    expect(replay.closed[0].totalActiveTime).toBe(30 * SECOND);
+  });
+
+  it('splits time between two tabs switched back and forth with saves in between', async () => {
+    const replay = createReplay();
+    const engine = await replay.start();
+    engine.syncTabs([TAB, OTHER_TAB]);
+
+    replay.advance(10 * SECOND);
+    engine.flush();
+    replay.advance(5 * SECOND);
+    engine.tabActivated(2);
+    replay.advance(7 * SECOND);
+    engine.flush();
+    replay.advance(3 * SECOND);
+    engine.tabActivated(1);
+    replay.advance(4 * SECOND);
+    engine.flush();
+
+    expect(activeTimeOf(engine, 1)).toBe(19 * SECOND);
+    expect(activeTimeOf(engine, 2)).toBe(10 * SECOND);
+    expect(intervalTimeOf(engine, 1)).toBe(19 * SECOND);
+    expect(intervalTimeOf(engine, 2)).toBe(10 * SECOND);
+  });
+
+  it('moves the idle threshold to idle time and resumes counting when the user returns', async () => {
+    const replay = createReplay();
+    const engine = await replay.start();
+    engine.syncTabs([TAB]);
+
+    replay.advance(30 * SECOND);
+    engine.flush();
+    replay.advance(30 * SECOND);
+    engine.idleStarted(20 * SECOND);
+    expect(activeTimeOf(engine, 1)).toBe(40 * SECOND);
+    expect(intervalTimeOf(engine, 1)).toBe(40 * SECOND);
+
+    // Saves while idle add nothing
+    replay.advance(100 * SECOND);
+    engine.flush();
+    expect(activeTimeOf(engine, 1)).toBe(40 * SECOND);
+    expect(engine.getTimingSnapshot().timingData[1].currentIdleTime).toBe(120 * SECOND);
+
+    engine.idleEnded();
+    expect(engine.getTimingSnapshot().timingData[1].totalIdleTime).toBe(120 * SECOND);
+    replay.advance(10 * SECOND);
+    engine.flush();
+    expect(activeTimeOf(engine, 1)).toBe(50 * SECOND);
+    expect(intervalTimeOf(engine, 1)).toBe(50 * SECOND);
+  });
+
+  it('records the running interval once when the active tab is closed', async () => {
+    const replay = createReplay();
+    const engine = await replay.start();
+    engine.syncTabs([TAB, OTHER_TAB]);
+
+    replay.advance(10 * SECOND);
+    engine.flush();
+    replay.advance(5 * SECOND);
+    engine.tabRemoved(1);
+    expect(replay.closed).toHaveLength(1);
+    expect(replay.closed[0].totalActiveTime).toBe(15 * SECOND);
+
+    // No tab is active until the browser reports the next one
+    replay.advance(10 * SECOND);
+    engine.flush();
+    expect(engine.getTimingSnapshot().activeTabId).toBeNull();
+    expect(activeTimeOf(engine, 2)).toBe(0);
+  });
+
+  it('does not count a saved interval again when tracking stops on another tab', async () => {
+    const replay = createReplay();
+    const engine = await replay.start();
+    engine.syncTabs([TAB, OTHER_TAB]);
+
+    replay.advance(10 * SECOND);
+    engine.flush();
+    engine.tabActivated(2);
+    replay.advance(5 * SECOND);
+    engine.flush();
+    engine.focusLost();
+    replay.advance(20 * SECOND);
+    engine.flush();
+
+    expect(activeTimeOf(engine, 1)).toBe(10 * SECOND);
+    expect(activeTimeOf(engine, 2)).toBe(5 * SECOND);
+
+    engine.tabRemoved(2);
+    expect(replay.closed[0].totalActiveTime).toBe(5 * SECOND);
+  });
+
+  it('gives the idle threshold back to budgets as well as to the tab', async () => {
+    const replay = createReplay();
+    const budgets = createBudgetTracker(replay.storage, replay.clock);
+    await saveBudgets(replay.storage, [
+      { id: 'example', name: 'Example', enabled: true, domainPattern: 'example.com', minutesPerDay: 30, block: false },
+    ]);
+    const updates: Promise<void>[] = [];
+    const engine = await replay.start({
+      onActiveTime: ({ url, start, end }) => void updates.push(budgets.record(url, start, end)),
+      onActiveTimeWithdrawn: ({ url, start, end }) => void updates.push(budgets.withdraw(url, start, end)),
+    });
+    engine.syncTabs([TAB]);
+
+    for (let flush = 0; flush < 4; flush++) {
+      replay.advance(30 * SECOND);
+      engine.flush();
+    }
+    engine.idleStarted(60 * SECOND);
+    await Promise.all(updates);
+
+    const [status] = await budgets.getStatuses(await loadBudgets(replay.storage));
+    expect(activeTimeOf(engine, 1)).toBe(60 * SECOND);
+    expect(status.usedMs).toBe(60 * SECOND);
+  });
+});
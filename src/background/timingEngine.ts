@@ -0,0 +1,712 @@
+// Pure timing engine for the background worker.
+// All time comes from the injected clock and all persistence goes through the
+// injected storage adapter, so a sequence of tab/window events can be replayed
+// deterministically.
+import { EXCLUDED_TAB_IDS_KEY, TAB_IDS_KEY, tabInfoKey, tabTimingKey } from '../shared/tabStorage';
+import type { ActiveInterval, ClosedTabData, ExcludedTabMode, TabInfo, TabTiming, TrackingSettings } from '../shared/types';
+import { EXCLUDED_URL, getHostname, matchesDomainPattern, stripUrlDetails } from '../shared/url';
+import { matchRestoredTabs } from './reconcile';
+
+export interface Clock {
+  now(): number;
+}
+
+export interface StorageAdapter {
+  get(keys: string[]): Promise<Record<string, unknown>>;
+  set(items: Record<string, unknown>): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+}
+
+// Receives a snapshot of every tracked tab that is closed
+export interface ClosedTabsSink {
+  add(tab: ClosedTabData): Promise<void>;
+}
+
+// The subset of chrome.tabs.Tab the engine needs
+export interface TabSnapshot {
+  id?: number;
+  url?: string;
+  title?: string;
+  favIconUrl?: string;
+  active: boolean;
+  windowId?: number;
+  index?: number;
+  pinned?: boolean;
+  audible?: boolean;
+  incognito?: boolean;
+}
+
+// A stretch of active time added to a tab, reported as it is committed, or
+// taken back off it once it turns out the user was idle
+export interface ActiveTimeSession {
+  tabId: number;
+  url?: string;
+  start: number;
+  end: number;
+}
+
+export interface TimingEngineOptions {
+  clock: Clock;
+  storage: StorageAdapter;
+  history: ClosedTabsSink;
+  onActiveTime?: (session: ActiveTimeSession) => void;
+  onActiveTimeWithdrawn?: (session: ActiveTimeSession) => void;
+}
+
+export type TimingEngine = ReturnType<typeof createTimingEngine>;
+
+const MAX_IDLE_INTERVALS = 100;
+const MAX_ACTIVE_INTERVALS = 200;
+const MAX_PAGES = 100;
+const EXCLUDED_TITLE = 'Excluded site';
+
+// Append a focus interval, continuing the last one when a periodic commit
+// split what was really a single session
+const extendIntervals = (intervals: ActiveInterval[], start: number, end: number): ActiveInterval[] => {
+  const last = intervals[intervals.length - 1];
+  if (last && last.end === start) {
+    return [...intervals.slice(0, -1), { start: last.start, end }];
+  }
+  return [...intervals, { start, end }].slice(-MAX_ACTIVE_INTERVALS);
+};
+
+// Copy of stored timing without the in-progress fields added to snapshots
+const stripCurrent = (timing: TabTiming): TabTiming => {
+  const copy = { ...timing };
+  delete copy.currentActiveTime;
+  delete copy.currentIdleTime;
+  delete copy.currentAudibleTime;
+  return copy;
+};
+
+const toNumericMap = <T>(record: unknown): Map<number, T> =>
+  new Map(Object.entries((record ?? {}) as Record<string, T>).map(([id, data]) => [parseInt(id), data]));
+
+export function createTimingEngine({ clock, storage, history, onActiveTime, onActiveTimeWithdrawn }: TimingEngineOptions) {
+  let tabTimingData = new Map<number, TabTiming>();
+  let tabInfoData = new Map<number, TabInfo>();
+
+  // The active tab and the moment its time was last committed
+  let activeTabId: number | null = null;
+  let activeStartTime: number | null = null;
+
+  // While the system is idle or locked the active timer is paused and the
+  // idle period is attributed to the tab that was active when it began
+  let idleSince: number | null = null;
+  let idleTabId: number | null = null;
+
+  // Tabs playing audio and when their audible time was last committed;
+  // counted whether or not the tab is active
+  const audibleSince = new Map<number, number>();
+
+  // Browser pages such as chrome://settings are left out unless enabled
+  let trackBrowserPages = false;
+
+  // Privacy settings: nothing new is recorded while paused, tabs on excluded
+  // sites are skipped or recorded anonymously, and query strings can be
+  // dropped from stored addresses
+  let paused = false;
+  let excludedDomains = '';
+  let excludeIncognito = false;
+  let excludedTabMode: ExcludedTabMode = 'ignore';
+  let stripDetails = false;
+
+  // Tabs currently showing an excluded site, kept in storage because the
+  // tab events that add them are not replayed when the worker restarts
+  let excludedTabIds = new Set<number>();
+
+  // Tabs being closed to be merged into another tab: their records are kept
+  // until the merge and their removal is not recorded as closed history
+  const heldTabIds = new Set<number>();
+
+  // Ids of the tabs that have records in storage
+  let storedTabIds = new Set<number>();
+
+  // Writes are fire-and-forget; a failed write is retried by the next save
+  const persist = (items: Record<string, unknown>) => {
+    storage.set(items).catch((err: Error) => console.warn('Failed to save data:', err.message));
+  };
+
+  const unpersist = (keys: string[]) => {
+    storage.remove(keys).catch((err: Error) => console.warn('Failed to remove data:', err.message));
+  };
+
+  // Keep the list of tabs with records in step with the tabs being tracked
+  const saveTabIds = () => {
+    const tabIds = new Set([...tabTimingData.keys(), ...tabInfoData.keys()]);
+    if (tabIds.size === storedTabIds.size && [...tabIds].every((tabId) => storedTabIds.has(tabId))) return;
+    storedTabIds = tabIds;
+    persist({ [TAB_IDS_KEY]: [...tabIds] });
+  };
+
+  // Write one tab's timing record, or remove it once the tab is gone
+  const saveTiming = (tabId: number) => {
+    const timing = tabTimingData.get(tabId);
+    if (timing) {
+      persist({ [tabTimingKey(tabId)]: timing });
+    } else {
+      unpersist([tabTimingKey(tabId)]);
+    }
+    saveTabIds();
+  };
+
+  const saveInfo = (tabId: number) => {
+    const info = tabInfoData.get(tabId);
+    if (info) {
+      persist({ [tabInfoKey(tabId)]: info });
+    } else {
+      unpersist([tabInfoKey(tabId)]);
+    }
+    saveTabIds();
+  };
+
+  const setExcluded = (tabId: number, excluded: boolean) => {
+    if (excluded === excludedTabIds.has(tabId)) return;
+    if (excluded) {
+      excludedTabIds.add(tabId);
+    } else {
+      excludedTabIds.delete(tabId);
+    }
+    persist({ [EXCLUDED_TAB_IDS_KEY]: [...excludedTabIds] });
+  };
+
+  const saveTabs = (tabIds: Iterable<number>) => {
+    [...tabIds].forEach((tabId) => {
+      saveTiming(tabId);
+      saveInfo(tabId);
+    });
+  };
+
+  // Load existing data from storage
+  const load = async () => {
+    const result = await storage.get([TAB_IDS_KEY, EXCLUDED_TAB_IDS_KEY, 'tabTiming', 'tabInfo']);
+    const tabIds = Array.isArray(result[TAB_IDS_KEY]) ? (result[TAB_IDS_KEY] as number[]) : [];
+    if (Array.isArray(result[EXCLUDED_TAB_IDS_KEY])) {
+      excludedTabIds = new Set(result[EXCLUDED_TAB_IDS_KEY] as number[]);
+    }
+    const records = await storage.get(tabIds.flatMap((tabId) => [tabTimingKey(tabId), tabInfoKey(tabId)]));
+    tabIds.forEach((tabId) => {
+      const timing = records[tabTimingKey(tabId)] as TabTiming | undefined;
+      const info = records[tabInfoKey(tabId)] as TabInfo | undefined;
+      if (timing) tabTimingData.set(tabId, timing);
+      if (info) tabInfoData.set(tabId, info);
+    });
+    storedTabIds = new Set(tabIds);
+
+    // Data saved as one map of every tab is split into records once
+    if (result.tabTiming || result.tabInfo) {
+      toNumericMap<TabTiming>(result.tabTiming).forEach((timing, tabId) => tabTimingData.set(tabId, timing));
+      toNumericMap<TabInfo>(result.tabInfo).forEach((info, tabId) => tabInfoData.set(tabId, info));
+      saveTabs(new Set([...tabTimingData.keys(), ...tabInfoData.keys()]));
+      unpersist(['tabTiming', 'tabInfo']);
+    }
+  };
+
+  // Add the time elapsed since the last commit to the active tab, save it and
+  // restart the interval. This is the only place active time is accumulated,
+  // so the periodic flush and stopping can never count the same interval twice.
+  const commitActiveTime = () => {
+    if (activeTabId === null || activeStartTime === null) return;
+    const now = clock.now();
+    const timing = tabTimingData.get(activeTabId);
+    if (timing) {
+      timing.totalActiveTime += Math.max(0, now - activeStartTime);
+      timing.lastActivatedAt = now;
+      if (now > activeStartTime) {
+        timing.activeIntervals = extendIntervals(timing.activeIntervals ?? [], activeStartTime, now);
+        onActiveTime?.({ tabId: activeTabId, url: tabInfoData.get(activeTabId)?.url, start: activeStartTime, end: now });
+      }
+      saveTiming(activeTabId);
+    }
+    activeStartTime = now;
+  };
+
+  // Add and save the time a tab has been audible since the last commit
+  const commitAudibleTime = (tabId: number) => {
+    const since = audibleSince.get(tabId);
+    const timing = tabTimingData.get(tabId);
+    if (since === undefined || !timing) return;
+    const now = clock.now();
+    timing.totalAudibleTime = (timing.totalAudibleTime ?? 0) + Math.max(0, now - since);
+    audibleSince.set(tabId, now);
+    saveTiming(tabId);
+  };
+
+  // A tab started or stopped playing audio
+  const setAudible = (tabId: number, audible: boolean) => {
+    if (audible === audibleSince.has(tabId)) return;
+    if (audible) {
+      if (isIgnored(tabId)) return;
+      if (!tabTimingData.has(tabId)) {
+        tabTimingData.set(tabId, { openedAt: clock.now(), totalActiveTime: 0 });
+        saveTiming(tabId);
+      }
+      audibleSince.set(tabId, clock.now());
+    } else {
+      commitAudibleTime(tabId);
+      audibleSince.delete(tabId);
+    }
+  };
+
+  const isExcluded = (tab: TabSnapshot): boolean =>
+    (excludeIncognito && !!tab.incognito) || (!!tab.url && matchesDomainPattern(getHostname(tab.url), excludedDomains));
+
+  // Tabs whose time is not recorded at all
+  const isIgnored = (tabId: number): boolean =>
+    paused || (excludedTabMode === 'ignore' && excludedTabIds.has(tabId));
+
+  const toStoredUrl = (url: string): string => (stripDetails ? stripUrlDetails(url) : url);
+
+  // Start tracking active time for a tab
+  const startActiveTracking = (tabId: number) => {
+    if (isIgnored(tabId)) {
+      stopActiveTracking();
+      return;
+    }
+    commitActiveTime();
+    activeTabId = tabId;
+    activeStartTime = idleSince === null ? clock.now() : null;
+    const timing = tabTimingData.get(tabId) ?? { openedAt: clock.now(), totalActiveTime: 0 };
+    timing.lastActivatedAt = clock.now();
+    tabTimingData.set(tabId, timing);
+    saveTiming(tabId);
+  };
+
+  // Stop tracking active time
+  const stopActiveTracking = () => {
+    commitActiveTime();
+    activeTabId = null;
+    activeStartTime = null;
+  };
+
+  // Take the active time counted since `from` back off a tab, and report each
+  // withdrawn stretch so consumers of onActiveTime can undo it too
+  const withdrawActiveTime = (tabId: number, from: number) => {
+    const timing = tabTimingData.get(tabId);
+    if (!timing?.activeIntervals) return;
+    const withdrawn: ActiveInterval[] = [];
+    timing.activeIntervals = timing.activeIntervals
+      .map((interval) => {
+        const end = Math.min(interval.end, from);
+        if (interval.end > Math.max(end, interval.start)) {
+          withdrawn.push({ start: Math.max(end, interval.start), end: interval.end });
+        }
+        return { start: interval.start, end };
+      })
+      .filter((interval) => interval.end > interval.start);
+    if (withdrawn.length === 0) return;
+    const total = withdrawn.reduce((sum, interval) => sum + interval.end - interval.start, 0);
+    timing.totalActiveTime = Math.max(0, timing.totalActiveTime - total);
+    saveTiming(tabId);
+    const url = tabInfoData.get(tabId)?.url;
+    withdrawn.forEach(({ start, end }) => onActiveTimeWithdrawn?.({ tabId, url, start, end }));
+  };
+
+  // The system went idle or was locked. Idle is only reported once the
+  // detection threshold has passed without input, so that stretch is moved
+  // from the active tab's active time to idle time.
+  const idleStarted = (idleForMs = 0) => {
+    if (idleSince !== null) return;
+    commitActiveTime();
+    idleSince = clock.now() - idleForMs;
+    idleTabId = activeTabId;
+    activeStartTime = null;
+    if (activeTabId !== null && idleForMs > 0) {
+      withdrawActiveTime(activeTabId, idleSince);
+    }
+  };
+
+  // The user is active again: record the idle interval and resume the timer
+  const idleEnded = () => {
+    if (idleSince === null) return;
+    const now = clock.now();
+    const timing = idleTabId !== null ? tabTimingData.get(idleTabId) : undefined;
+    if (timing) {
+      timing.totalIdleTime = (timing.totalIdleTime ?? 0) + (now - idleSince);
+      timing.idleIntervals = [...(timing.idleIntervals ?? []), { start: idleSince, end: now }].slice(-MAX_IDLE_INTERVALS);
+      saveTiming(idleTabId!);
+    }
+    idleSince = null;
+    idleTabId = null;
+    if (activeTabId !== null) {
+      activeStartTime = now;
+    }
+  };
+
+  // Add a navigation to the tab's page history, or retitle the current page
+  // once its title has loaded
+  const recordPage = (tabId: number, url: string, title: string) => {
+    const timing = tabTimingData.get(tabId) ?? { openedAt: clock.now(), totalActiveTime: 0 };
+    const pages = timing.pages ?? [];
+    const last = pages[pages.length - 1];
+    if (last?.url === url) {
+      if (last.title === title) return;
+      timing.pages = [...pages.slice(0, -1), { ...last, title }];
+    } else {
+      timing.pages = [...pages, { url, title, at: clock.now() }].slice(-MAX_PAGES);
+    }
+    tabTimingData.set(tabId, timing);
+    saveTiming(tabId);
+  };
+
+  // Record an excluded tab: drop whatever was recorded for it, or keep only
+  // its timing under a placeholder address
+  const updateExcludedTab = (tabId: number, tab: TabSnapshot) => {
+    setExcluded(tabId, true);
+    if (excludedTabMode === 'ignore') {
+      if (activeTabId === tabId || tabTimingData.has(tabId) || tabInfoData.has(tabId)) {
+        forget(tabId);
+      }
+      return;
+    }
+    const timing = { ...(tabTimingData.get(tabId) ?? { openedAt: clock.now(), totalActiveTime: 0 }) };
+    delete timing.pages;
+    tabTimingData.set(tabId, timing);
+    saveTiming(tabId);
+    tabInfoData.set(tabId, {
+      title: EXCLUDED_TITLE,
+      url: EXCLUDED_URL,
+      lastUpdated: clock.now(),
+      windowId: tab.windowId,
+      index: tab.index,
+      pinned: tab.pinned,
+    });
+    saveInfo(tabId);
+  };
+
+  // Update tab information (title, URL, favicon)
+  const updateTabInfo = (tabId: number, tab: TabSnapshot) => {
+    if (paused || !tab.url || (!trackBrowserPages && tab.url.startsWith('chrome://'))) return;
+    if (isExcluded(tab)) {
+      updateExcludedTab(tabId, tab);
+      return;
+    }
+    setExcluded(tabId, false);
+    const url = toStoredUrl(tab.url);
+    recordPage(tabId, url, tab.title || 'Untitled Tab');
+    tabInfoData.set(tabId, {
+      title: tab.title || 'Untitled Tab',
+      url,
+      favIconUrl: tab.favIconUrl,
+      lastUpdated: clock.now(),
+      windowId: tab.windowId,
+      index: tab.index,
+      pinned: tab.pinned,
+    });
+    saveInfo(tabId);
+  };
+
+  // Keep the recorded position of tracked tabs current as tabs are moved,
+  // pinned, opened and closed around them
+  const updatePositions = (tabs: TabSnapshot[]) => {
+    tabs.forEach((tab) => {
+      const info = tab.id !== undefined ? tabInfoData.get(tab.id) : undefined;
+      if (!info || (info.windowId === tab.windowId && info.index === tab.index && info.pinned === tab.pinned)) return;
+      tabInfoData.set(tab.id!, { ...info, windowId: tab.windowId, index: tab.index, pinned: tab.pinned });
+      saveInfo(tab.id!);
+    });
+  };
+
+  const tabActivated = (tabId: number) => {
+    startActiveTracking(tabId);
+  };
+
+  const tabCreated = (tab: TabSnapshot) => {
+    if (tab.id !== undefined) {
+      updateTabInfo(tab.id, tab);
+    }
+  };
+
+  const tabUpdated = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo, tab: TabSnapshot) => {
+    if (changeInfo.title || changeInfo.url || changeInfo.favIconUrl) {
+      updateTabInfo(tabId, tab);
+    }
+    // A completed load in the already active tab must not restart its interval
+    if (changeInfo.status === 'complete' && tab.active && activeTabId !== tabId) {
+      startActiveTracking(tabId);
+    }
+    if (changeInfo.audible !== undefined) {
+      setAudible(tabId, changeInfo.audible);
+    }
+  };
+
+  const tabRemoved = (tabId: number) => {
+    if (activeTabId === tabId) {
+      stopActiveTracking();
+    }
+    commitAudibleTime(tabId);
+    audibleSince.delete(tabId);
+    if (heldTabIds.has(tabId)) return;
+    // Nothing about the tab goes into the history while tracking is paused or
+    // when its site is left out altogether
+    const recordable = !isIgnored(tabId);
+    setExcluded(tabId, false);
+
+    const timingData = tabTimingData.get(tabId);
+    if (timingData && recordable) {
+      const now = clock.now();
+      const storedTabInfo = tabInfoData.get(tabId);
+      history.add({
+        id: tabId,
+        closedAt: now,
+        openedAt: timingData.openedAt,
+        totalActiveTime: timingData.totalActiveTime,
+        totalTimeOpen: now - timingData.openedAt,
+        totalIdleTime: timingData.totalIdleTime,
+        title: storedTabInfo ? storedTabInfo.title : 'Untitled Tab',
+        url: storedTabInfo ? storedTabInfo.url : 'Unknown',
+        favIconUrl: storedTabInfo?.favIconUrl,
+        activeIntervals: timingData.activeIntervals,
+        pages: timingData.pages,
+        totalAudibleTime: timingData.totalAudibleTime,
+        windowId: storedTabInfo?.windowId,
+        index: storedTabInfo?.index,
+        pinned: storedTabInfo?.pinned,
+      }).catch((err: Error) => console.warn('Failed to record closed tab:', err.message));
+    }
+
+    tabTimingData.delete(tabId);
+    tabInfoData.delete(tabId);
+    saveTabs([tabId]);
+  };
+
+  // All browser windows lost focus
+  const focusLost = () => {
+    stopActiveTracking();
+  };
+
+  // A window gained focus with the given active tab
+  const focusGained = (tabId: number | undefined) => {
+    if (tabId !== undefined) {
+      startActiveTracking(tabId);
+    }
+  };
+
+  // Capture info for all existing tabs and track the active one
+  const syncTabs = (tabs: TabSnapshot[]) => {
+    tabs.forEach((tab) => {
+      if (tab.id !== undefined) {
+        updateTabInfo(tab.id, tab);
+        setAudible(tab.id, !!tab.audible);
+      }
+    });
+    const activeTab = tabs.find((tab) => tab.active);
+    if (activeTab?.id !== undefined) {
+      startActiveTracking(activeTab.id);
+    }
+  };
+
+  // Periodic save so an unexpected shutdown loses at most one interval
+  const flush = () => {
+    [...audibleSince.keys()].forEach(commitAudibleTime);
+    commitActiveTime();
+  };
+
+  // Replace the timing data of a single tab
+  const setTabTiming = (tabId: number, timing: TabTiming) => {
+    tabTimingData.set(tabId, stripCurrent(timing));
+    saveTiming(tabId);
+  };
+
+  // Drop tabs about to be closed without recording them as closed history
+  const forget = (tabId: number) => {
+    if (activeTabId === tabId) {
+      activeTabId = null;
+      activeStartTime = null;
+    }
+    audibleSince.delete(tabId);
+    tabTimingData.delete(tabId);
+    tabInfoData.delete(tabId);
+    saveTabs([tabId]);
+  };
+
+  const forgetTabs = (tabIds: number[]) => {
+    commitActiveTime();
+    tabIds.forEach(forget);
+  };
+
+  // Keep the records of tabs about to be closed for mergeTabTiming, or let
+  // them be tracked as usual again when they stay open
+  const holdTabs = (tabIds: number[]) => {
+    tabIds.forEach((tabId) => heldTabIds.add(tabId));
+  };
+
+  const releaseTabs = (tabIds: number[]) => {
+    tabIds.forEach((tabId) => heldTabIds.delete(tabId));
+  };
+
+  // Fold the timing of closed or held tabs into a surviving tab. The merged
+  // tabs are forgotten here so their removal is not recorded as closed history.
+  const mergeTabTiming = (survivorId: number, mergedIds: number[]) => {
+    commitActiveTime();
+    releaseTabs(mergedIds);
+    const survivor = tabTimingData.get(survivorId) ?? { openedAt: clock.now(), totalActiveTime: 0 };
+    mergedIds.forEach((tabId) => {
+      const timing = tabTimingData.get(tabId);
+      if (timing) {
+        commitAudibleTime(tabId);
+        survivor.totalActiveTime += timing.totalActiveTime;
+        if (timing.totalAudibleTime) {
+          survivor.totalAudibleTime = (survivor.totalAudibleTime ?? 0) + timing.totalAudibleTime;
+        }
+        survivor.openedAt = Math.min(survivor.openedAt, timing.openedAt);
+        if (timing.lastActivatedAt !== undefined) {
+          survivor.lastActivatedAt = Math.max(survivor.lastActivatedAt ?? 0, timing.lastActivatedAt);
+        }
+      }
+      forget(tabId);
+    });
+    tabTimingData.set(survivorId, survivor);
+    saveTiming(survivorId);
+  };
+
+  // Continue a closed tab's timing in the tab that reopened it, keeping
+  // anything recorded for the new tab since it was created
+  const adoptClosedTab = (tabId: number, closed: ClosedTabData) => {
+    commitActiveTime();
+    commitAudibleTime(tabId);
+    const current = tabTimingData.get(tabId);
+    const closedPages = closed.pages ?? [];
+    const lastUrl = closedPages[closedPages.length - 1]?.url;
+    const newPages = (current?.pages ?? []).filter((page, i) => i > 0 || page.url !== lastUrl);
+    tabTimingData.set(tabId, {
+      ...current,
+      openedAt: closed.openedAt,
+      totalActiveTime: closed.totalActiveTime + (current?.totalActiveTime ?? 0),
+      totalIdleTime: (closed.totalIdleTime ?? 0) + (current?.totalIdleTime ?? 0),
+      totalAudibleTime: (closed.totalAudibleTime ?? 0) + (current?.totalAudibleTime ?? 0),
+      activeIntervals: [...(closed.activeIntervals ?? []), ...(current?.activeIntervals ?? [])].slice(-MAX_ACTIVE_INTERVALS),
+      pages: [...closedPages, ...newPages].slice(-MAX_PAGES),
+    });
+    saveTiming(tabId);
+  };
+
+  // Drop the records of tabs on matching pages, and those pages from the page
+  // history of every other tab; returns how many tabs were dropped
+  const forgetPages = (matches: (url: string) => boolean): number => {
+    commitActiveTime();
+    const tabIds = [...tabInfoData].filter(([, info]) => matches(info.url)).map(([tabId]) => tabId);
+    tabIds.forEach(forget);
+    tabTimingData.forEach((timing, tabId) => {
+      if (!timing.pages?.some((page) => matches(page.url))) return;
+      timing.pages = timing.pages.filter((page) => !matches(page.url));
+      saveTiming(tabId);
+    });
+    return tabIds.length;
+  };
+
+  // Re-key the previous session's entries to the ids Chrome gave the restored
+  // tabs, and drop entries that no open tab continues. Addresses are compared
+  // the way they are stored.
+  const reconcileSession = (tabs: TabSnapshot[]) => {
+    const stored = [...tabInfoData].map(([tabId, info]) => ({ tabId, info }));
+    const matches = matchRestoredTabs(stored, tabs.map((tab) => ({ ...tab, url: tab.url && toStoredUrl(tab.url) })));
+    const previousTiming = tabTimingData;
+    const previousInfo = tabInfoData;
+    tabTimingData = new Map();
+    tabInfoData = new Map();
+    // Excluded tabs kept no info to match them by; they are found again when
+    // the restored tabs are synced
+    excludedTabIds = new Set();
+    persist({ [EXCLUDED_TAB_IDS_KEY]: [] });
+    matches.forEach((storedId, tabId) => {
+      const timing = previousTiming.get(storedId);
+      const info = previousInfo.get(storedId);
+      if (timing) tabTimingData.set(tabId, timing);
+      if (info) tabInfoData.set(tabId, info);
+    });
+    [...audibleSince.keys()].filter((tabId) => !matches.has(tabId)).forEach((tabId) => audibleSince.delete(tabId));
+    if (activeTabId !== null && !matches.has(activeTabId)) {
+      activeTabId = null;
+      activeStartTime = null;
+    }
+    saveTabs(new Set([...previousTiming.keys(), ...previousInfo.keys(), ...matches.keys()]));
+    return {
+      matched: [...matches].filter(([tabId, storedId]) => tabId !== storedId).length,
+      removed: new Set([...previousTiming.keys(), ...previousInfo.keys()]).size - matches.size,
+    };
+  };
+
+  // Replace all stored timing and tab info, as when importing a backup. The
+  // active tab keeps being tracked if the new data still covers it.
+  const replaceData = (timing: Record<string, TabTiming>, info: Record<string, TabInfo>) => {
+    commitActiveTime();
+    const previousIds = new Set([...tabTimingData.keys(), ...tabInfoData.keys()]);
+    tabTimingData = toNumericMap<TabTiming>(timing);
+    tabInfoData = toNumericMap<TabInfo>(info);
+    tabTimingData.forEach((entry, tabId) => tabTimingData.set(tabId, stripCurrent(entry)));
+    saveTabs(new Set([...previousIds, ...tabTimingData.keys(), ...tabInfoData.keys()]));
+  };
+
+  // Apply tracking settings. Pausing commits the running time first; tabs
+  // are re-checked against the exclusions the next time they are synced.
+  const configure = (settings: TrackingSettings) => {
+    trackBrowserPages = settings.trackBrowserPages;
+    if (settings.trackingPaused && !paused) {
+      stopActiveTracking();
+      [...audibleSince.keys()].forEach(commitAudibleTime);
+      audibleSince.clear();
+    }
+    paused = settings.trackingPaused;
+    excludedDomains = settings.excludedDomains;
+    excludeIncognito = settings.excludeIncognito;
+    excludedTabMode = settings.excludedTabMode;
+    stripDetails = settings.stripUrlDetails;
+  };
+
+  // Copy of the timing data including the uncommitted time of the active tab
+  const getTimingSnapshot = () => {
+    const timingData: Record<number, TabTiming> = {};
+    tabTimingData.forEach((timing, tabId) => {
+      timingData[tabId] = stripCurrent(timing);
+    });
+    if (activeTabId !== null && activeStartTime !== null && timingData[activeTabId]) {
+      timingData[activeTabId].currentActiveTime = clock.now() - activeStartTime;
+    }
+    if (idleTabId !== null && idleSince !== null && timingData[idleTabId]) {
+      timingData[idleTabId].currentIdleTime = clock.now() - idleSince;
+    }
+    audibleSince.forEach((since, tabId) => {
+      if (timingData[tabId]) {
+        timingData[tabId].currentAudibleTime = clock.now() - since;
+      }
+    });
+    return { timingData, activeTabId };
+  };
+
+  // Copy of the info captured for every open tab
+  const getTabInfoSnapshot = (): Record<number, TabInfo> => {
+    const tabInfo: Record<number, TabInfo> = {};
+    tabInfoData.forEach((info, tabId) => {
+      tabInfo[tabId] = { ...info };
+    });
+    return tabInfo;
+  };
+
+  return {
+    load,
+    configure,
+    tabActivated,
+    idleStarted,
+    idleEnded,
+    tabCreated,
+    tabUpdated,
+    tabRemoved,
+    updatePositions,
+    focusLost,
+    focusGained,
+    syncTabs,
+    reconcileSession,
+    flush,
+    setTabTiming,
+    forgetTabs,
+    holdTabs,
+    releaseTabs,
+    mergeTabTiming,
+    adoptClosedTab,
+    forgetPages,
+    replaceData,
+    getTimingSnapshot,
+    getTabInfoSnapshot,
+  };
+}
@@ -0,0 +1,24 @@
+// Tracking settings edited on the options page, applied live as they change
+import { normalizeTrackingSettings } from '../shared/settings';
+import type { TrackingSettings } from '../shared/types';
+import type { StorageAdapter } from './timingEngine';
+
+const STORAGE_KEY = 'trackingSettings';
+
+export const loadTrackingSettings = async (storage: StorageAdapter): Promise<TrackingSettings> => {
+  const result = await storage.get([STORAGE_KEY]);
+  return normalizeTrackingSettings(result[STORAGE_KEY]);
+};
+
+export const saveTrackingSettings = (storage: StorageAdapter, settings: TrackingSettings) =>
+  storage.set({ [STORAGE_KEY]: settings });
+
+// Call back with the new settings whenever they are saved, whether from the
+// options page or by importing a backup
+export const watchTrackingSettings = (onChange: (settings: TrackingSettings) => void) => {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && STORAGE_KEY in changes) {
+      onChange(normalizeTrackingSettings(changes[STORAGE_KEY].newValue));
+    }
+  });
+};
@@ -0,0 +1,172 @@
+// Log of recent tab operations that can be undone. Each entry keeps the state
+// its tabs had before the operation, and undoing puts that state back.
+import type { TabState, UndoEntry, UndoKind } from '../shared/types';
+import { UNDO_LOG_KEY } from '../shared/undoLog';
+import {
+  createWindow,
+  groupTabs,
+  moveTabs,
+  queryTabGroups,
+  queryTabs,
+  ungroupTabs,
+  updateTab,
+  updateTabGroup,
+} from './adapters';
+import type { Clock, StorageAdapter } from './timingEngine';
+
+const MAX_ENTRIES = 20;
+
+// Which parts of the recorded state each kind of operation changes, so undoing
+// it leaves everything else as the user has since made it
+const restoresPosition = (kind: UndoKind) => kind !== 'mute';
+const restoresPinned = (kind: UndoKind) => kind === 'pin' || kind === 'close';
+const restoresMuted = (kind: UndoKind) => kind === 'mute' || kind === 'close';
+
+// Current state of the given tabs, or of every tab
+export const captureTabStates = async (tabIds?: number[]): Promise<TabState[]> => {
+  const [tabs, groups] = await Promise.all([queryTabs({}), queryTabGroups({})]);
+  const groupsById = new Map(groups.map((group) => [group.id, group]));
+  return tabs
+    .filter((tab): tab is chrome.tabs.Tab & { id: number } =>
+      tab.id !== undefined && (tabIds === undefined || tabIds.includes(tab.id)))
+    .map((tab) => {
+      const group = groupsById.get(tab.groupId);
+      return {
+        tabId: tab.id,
+        url: tab.url,
+        windowId: tab.windowId,
+        index: tab.index,
+        pinned: tab.pinned,
+        muted: !!tab.mutedInfo?.muted,
+        group: group ? { id: group.id, title: group.title, color: group.color } : undefined,
+      };
+    });
+};
+
+export type UndoLog = ReturnType<typeof createUndoLog>;
+
+export function createUndoLog(storage: StorageAdapter, clock: Clock) {
+  // The log is read, changed and written back; run those steps one at a time
+  let pending: Promise<unknown> = Promise.resolve();
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = pending.then(task);
+    pending = result.catch(() => undefined);
+    return result;
+  };
+
+  const read = async (): Promise<UndoEntry[]> => {
+    const result = await storage.get([UNDO_LOG_KEY]);
+    return Array.isArray(result[UNDO_LOG_KEY]) ? (result[UNDO_LOG_KEY] as UndoEntry[]) : [];
+  };
+
+  // Entries oldest first
+  const list = () => serialize(read);
+
+  // Add an operation, given the state its tabs had before it ran
+  const push = (kind: UndoKind, label: string, tabs: TabState[]) =>
+    serialize(async () => {
+      if (tabs.length === 0) return;
+      const at = clock.now();
+      const entry: UndoEntry = { id: `${at}-${Math.random().toString(36).slice(2, 8)}`, kind, label, at, tabs };
+      await storage.set({ [UNDO_LOG_KEY]: [...(await read()), entry].slice(-MAX_ENTRIES) });
+    });
+
+  // Remove the newest entries from the log and return them, newest first
+  const take = (count: number) =>
+    serialize(async () => {
+      const entries = await read();
+      const taken = entries.slice(-count).reverse();
+      await storage.set({ [UNDO_LOG_KEY]: entries.slice(0, entries.length - taken.length) });
+      return taken;
+    });
+
+  // Drop the recorded state of tabs on matching pages, and entries left empty
+  const forgetPages = (matches: (url: string) => boolean) =>
+    serialize(async () => {
+      const entries = await read();
+      if (!entries.some((entry) => entry.tabs.some((tab) => tab.url && matches(tab.url)))) return;
+      await storage.set({
+        [UNDO_LOG_KEY]: entries
+          .map((entry) => ({ ...entry, tabs: entry.tabs.filter((tab) => !tab.url || !matches(tab.url)) }))
+          .filter((entry) => entry.tabs.length > 0),
+      });
+    });
+
+  return { list, push, take, forgetPages };
+}
+
+// Put tabs back into the windows they were in, opening a new window in place
+// of each one that has since closed
+const restorePositions = async (states: TabState[]) => {
+  const openWindowIds = new Set((await queryTabs({})).map((tab) => tab.windowId));
+  const windowIds = new Map<number, number>();
+  for (const state of [...states].sort((a, b) => a.index - b.index)) {
+    const windowId = openWindowIds.has(state.windowId) ? state.windowId : windowIds.get(state.windowId);
+    if (windowId === undefined) {
+      const window = await createWindow({ tabId: state.tabId, focused: false });
+      if (window.id === undefined) {
+        throw new Error('Created window has no id');
+      }
+      windowIds.set(state.windowId, window.id);
+      continue;
+    }
+    await moveTabs([state.tabId], { windowId, index: state.index });
+  }
+};
+
+// Regroup tabs as they were, recreating groups that no longer exist, and take
+// tabs that were not grouped back out of any group they have joined
+const restoreGroups = async (states: TabState[]) => {
+  const currentGroups = new Map((await queryTabs({})).map((tab) => [tab.id, tab.groupId]));
+  const grouped = new Map<number, TabState[]>();
+  const ungrouped: number[] = [];
+  states.forEach((state) => {
+    if (state.group) {
+      grouped.set(state.group.id, [...(grouped.get(state.group.id) ?? []), state]);
+    } else if (currentGroups.get(state.tabId) !== chrome.tabGroups.TAB_GROUP_ID_NONE) {
+      ungrouped.push(state.tabId);
+    }
+  });
+  if (ungrouped.length > 0) {
+    await ungroupTabs(ungrouped);
+  }
+  const existingGroupIds = new Set((await queryTabGroups({})).map((group) => group.id));
+  for (const [groupId, groupStates] of grouped) {
+    const tabIds = groupStates.map((state) => state.tabId);
+    if (existingGroupIds.has(groupId)) {
+      await groupTabs({ tabIds, groupId });
+    } else {
+      const { title, color } = groupStates[0].group!;
+      await updateTabGroup(await groupTabs({ tabIds }), { title, color });
+    }
+  }
+};
+
+// Reverse one logged operation and return the ids of the tabs it touched.
+// Tabs the operation closed are brought back through `reopen`, which returns
+// the id of the reopened tab; tabs that have closed since are skipped.
+export const undoEntry = async (entry: UndoEntry, reopen: (state: TabState) => Promise<number>): Promise<number[]> => {
+  const openTabIds = new Set((await queryTabs({})).map((tab) => tab.id));
+  const states: TabState[] = [];
+  for (const state of entry.tabs) {
+    if (openTabIds.has(state.tabId)) {
+      states.push(state);
+    } else if (entry.kind === 'close') {
+      states.push({ ...state, tabId: await reopen(state) });
+    }
+  }
+
+  if (restoresPinned(entry.kind) || restoresMuted(entry.kind)) {
+    for (const state of states) {
+      await updateTab(state.tabId, {
+        pinned: restoresPinned(entry.kind) ? state.pinned : undefined,
+        muted: restoresMuted(entry.kind) ? state.muted : undefined,
+      });
+    }
+  }
+  if (restoresPosition(entry.kind)) {
+    await restorePositions(states);
+    await restoreGroups(states);
+  }
+  return states.map((state) => state.tabId);
+};
@@ -0,0 +1,93 @@
+// Moving tabs within and between browser windows
+import {
+  createWindow,
+  getAllWindows,
+  getLastFocusedWindow,
+  groupTabs,
+  moveTabGroup,
+  moveTabs,
+  queryTabs,
+} from './adapters';
+
+// Open the given tabs, in order, in a new window of their own
+export const moveTabsToNewWindow = async (tabIds: number[]): Promise<number> => {
+  const [first, ...rest] = tabIds;
+  const window = await createWindow({ tabId: first, focused: true });
+  if (window.id === undefined) {
+    throw new Error('Created window has no id');
+  }
+  if (rest.length > 0) {
+    await moveTabs(rest, { windowId: window.id, index: -1 });
+  }
+  return window.id;
+};
+
+// Append the given tabs, in order, to an existing window
+export const moveTabsToWindow = async (tabIds: number[], windowId: number): Promise<number> => {
+  await moveTabs(tabIds, { windowId, index: -1 });
+  return windowId;
+};
+
+// Move the tabs of every other normal window to the end of the last focused
+// one. Tab groups are moved as a whole so they survive the merge.
+export const mergeAllWindows = async (): Promise<{ windowId: number; movedTabIds: number[] }> => {
+  const target = await getLastFocusedWindow();
+  if (target.id === undefined) {
+    throw new Error('No window to merge into');
+  }
+  const movedTabIds: number[] = [];
+  for (const window of await getAllWindows()) {
+    if (window.id === target.id) continue;
+    const tabs = [...(window.tabs ?? [])].sort((a, b) => a.index - b.index);
+    const movedGroups = new Set<number>();
+    for (const tab of tabs) {
+      if (tab.id === undefined) continue;
+      if (tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE) {
+        if (!movedGroups.has(tab.groupId)) {
+          movedGroups.add(tab.groupId);
+          await moveTabGroup(tab.groupId, { windowId: target.id, index: -1 });
+        }
+      } else {
+        await moveTabs([tab.id], { windowId: target.id, index: -1 });
+      }
+      movedTabIds.push(tab.id);
+    }
+  }
+  return { windowId: target.id, movedTabIds };
+};
+
+// Put a window's tabs in the given order and return the order they had.
+// Pinned tabs stay first and tabs missing from the list keep their places
+// after the listed ones. Each run of tabs sharing a group is moved in one
+// call, and grouped tabs are added back to their group in case the move took
+// them out of it.
+export const reorderWindowTabs = async (windowId: number, tabIds: number[]): Promise<number[]> => {
+  const tabs = (await queryTabs({ windowId }))
+    .filter((tab): tab is chrome.tabs.Tab & { id: number } => tab.id !== undefined)
+    .sort((a, b) => a.index - b.index);
+  const previousTabIds = tabs.map((tab) => tab.id);
+  const tabsById = new Map(tabs.map((tab) => [tab.id, tab]));
+  const ordered = [...new Set([...tabIds.filter((tabId) => tabsById.has(tabId)), ...previousTabIds])]
+    .map((tabId) => tabsById.get(tabId)!);
+
+  const runs: (chrome.tabs.Tab & { id: number })[][] = [];
+  [...ordered.filter((tab) => tab.pinned), ...ordered.filter((tab) => !tab.pinned)].forEach((tab) => {
+    const run = runs[runs.length - 1];
+    if (run && run[0].groupId === tab.groupId && run[0].pinned === tab.pinned) {
+      run.push(tab);
+    } else {
+      runs.push([tab]);
+    }
+  });
+
+  let index = 0;
+  for (const run of runs) {
+    const runTabIds = run.map((tab) => tab.id);
+    await moveTabs(runTabIds, { index });
+    if (run[0].groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE) {
+      await groupTabs({ tabIds: runTabIds, groupId: run[0].groupId });
+    }
+    index += run.length;
+  }
+  return previousTabIds;
+};
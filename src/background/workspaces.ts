@@ -0,0 +1,135 @@
+// Named workspaces: saved snapshots of whole tab sessions
+import type { RestoreMode, Workspace, WorkspaceScope, WorkspaceTab } from '../shared/types';
+import { getLastFocusedWindow, queryTabs, removeTabs } from './adapters';
+import { reopenTabsInNewWindow, reopenTabsInWindow } from './reopen';
+import type { Clock, StorageAdapter } from './timingEngine';
+
+const STORAGE_KEY = 'workspaces';
+
+export type WorkspaceStore = ReturnType<typeof createWorkspaceStore>;
+
+// Group tabs by window, each in tab strip order, skipping browser pages
+export const snapshotWindows = (tabs: chrome.tabs.Tab[]): Workspace['windows'] => {
+  const windows = new Map<number, chrome.tabs.Tab[]>();
+  tabs.forEach((tab) => {
+    if (!tab.url || tab.url.startsWith('chrome://')) return;
+    windows.set(tab.windowId, [...(windows.get(tab.windowId) ?? []), tab]);
+  });
+  return [...windows.values()].map((windowTabs) => ({
+    tabs: windowTabs
+      .sort((a, b) => a.index - b.index)
+      .map((tab): WorkspaceTab => ({ url: tab.url!, title: tab.title || 'Untitled Tab', pinned: tab.pinned })),
+  }));
+};
+
+// Snapshot the tabs of every window, or only of the last focused one
+export const captureWindows = async (scope: WorkspaceScope): Promise<Workspace['windows']> => {
+  if (scope === 'all') {
+    return snapshotWindows(await queryTabs({}));
+  }
+  const window = await getLastFocusedWindow();
+  return snapshotWindows(await queryTabs({ windowId: window.id }));
+};
+
+// Restore a workspace into new windows, or into the current window in place of its tabs
+export const restoreWorkspace = async (workspace: Workspace, mode: RestoreMode): Promise<number[]> => {
+  const [first, ...rest] = workspace.windows;
+  const tabIds: number[] = [];
+  if (!first) return tabIds;
+
+  if (mode === 'replace') {
+    const window = await getLastFocusedWindow();
+    if (window.id === undefined) {
+      throw new Error('No current window to replace');
+    }
+    const previousIds = (await queryTabs({ windowId: window.id }))
+      .map((tab) => tab.id)
+      .filter((id): id is number => id !== undefined);
+    tabIds.push(...await reopenTabsInWindow(window.id, first.tabs));
+    if (previousIds.length > 0) {
+      await removeTabs(previousIds);
+    }
+  } else {
+    tabIds.push(...await reopenTabsInNewWindow(first.tabs));
+  }
+
+  // Any further windows of the workspace always open as new windows
+  for (const window of rest) {
+    tabIds.push(...await reopenTabsInNewWindow(window.tabs));
+  }
+  return tabIds;
+};
+
+export function createWorkspaceStore(storage: StorageAdapter, clock: Clock) {
+  const readAll = async (): Promise<Workspace[]> => {
+    const result = await storage.get([STORAGE_KEY]);
+    return Array.isArray(result[STORAGE_KEY]) ? (result[STORAGE_KEY] as Workspace[]) : [];
+  };
+
+  const writeAll = (workspaces: Workspace[]) => storage.set({ [STORAGE_KEY]: workspaces });
+
+  const get = async (id: string): Promise<Workspace> => {
+    const workspace = (await readAll()).find((w) => w.id === id);
+    if (!workspace) {
+      throw new Error(`Workspace ${id} not found`);
+    }
+    return workspace;
+  };
+
+  // Apply a change to one workspace and persist the list
+  const modify = async (id: string, change: (workspace: Workspace) => Workspace): Promise<Workspace> => {
+    const workspaces = await readAll();
+    const index = workspaces.findIndex((w) => w.id === id);
+    if (index === -1) {
+      throw new Error(`Workspace ${id} not found`);
+    }
+    const updated = { ...change(workspaces[index]), updatedAt: clock.now() };
+    workspaces[index] = updated;
+    await writeAll(workspaces);
+    return updated;
+  };
+
+  // Most recently updated first
+  const list = async (): Promise<Workspace[]> =>
+    (await readAll()).sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const create = async (name: string, windows: Workspace['windows']): Promise<Workspace> => {
+    const now = clock.now();
+    const workspace: Workspace = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, windows };
+    await writeAll([...(await readAll()), workspace]);
+    return workspace;
+  };
+
+  const rename = (id: string, name: string) => modify(id, (workspace) => ({ ...workspace, name }));
+
+  const replaceWindows = (id: string, windows: Workspace['windows']) =>
+    modify(id, (workspace) => ({ ...workspace, windows }));
+
+  const remove = async (id: string) => {
+    await writeAll((await readAll()).filter((w) => w.id !== id));
+  };
+
+  // Take tabs on matching pages out of every workspace, and windows left
+  // without tabs with them
+  const forgetPages = async (matches: (url: string) => boolean) => {
+    const workspaces = await readAll();
+    const changed = workspaces.filter((workspace) =>
+      workspace.windows.some((window) => window.tabs.some((tab) => matches(tab.url))));
+    if (changed.length === 0) return;
+    const now = clock.now();
+    await writeAll(workspaces.map((workspace) => changed.includes(workspace)
+      ? {
+        ...workspace,
+        updatedAt: now,
+        windows: workspace.windows
+          .map((window) => ({ tabs: window.tabs.filter((tab) => !matches(tab.url)) }))
+          .filter((window) => window.tabs.length > 0),
+      }
+      : workspace));
+  };
+
+  // Overwrite every saved workspace, as when importing a backup
+  const replaceAll = (workspaces: Workspace[]) => writeAll(workspaces);
+
+  return { get, list, create, rename, replaceWindows, remove, forgetPages, replaceAll };
+}
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StorageAdapter } from './timingEngine';
+import { createBufferedStorage } from './writeBuffer';
+
+const DELAY = 1000;
+
+// Storage that logs every call and can hold a write back until released
+const createRecordingStorage = () => {
+  const calls: string[] = [];
+  const items = new Map<string, unknown>();
+  let gate: Promise<void> | null = null;
+  const storage: StorageAdapter = {
+    get: async (keys) => Object.fromEntries(keys.filter((key) => items.has(key)).map((key) => [key, items.get(key)])),
+    set: async (values) => {
+      calls.push(`set ${JSON.stringify(values)}`);
+      if (gate) await gate;
+      Object.entries(values).forEach(([key, value]) => items.set(key, value));
+    },
+    remove: async (keys) => {
+      calls.push(`remove ${keys.join(',')}`);
+      keys.forEach((key) => items.delete(key));
+    },
+  };
+  const hold = () => {
+    let release = () => {};
+    gate = new Promise((resolve) => {
+      release = () => {
+        gate = null;
+        resolve();
+      };
+    });
+    return release;
+  };
+  return { storage, calls, items, hold };
+};
+
+describe('createBufferedStorage', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('coalesces a burst of changes into one set and one remove with the latest values', async () => {
+    const { storage, calls } = createRecordingStorage();
+    const buffered = createBufferedStorage(storage, DELAY);
+    const writes = [
+      buffered.set({ a: 1, b: 1 }),
+      buffered.set({ a: 2 }),
+      buffered.remove(['b', 'c']),
+      buffered.set({ c: 3 }),
+    ];
+    expect(calls).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(DELAY);
+    await Promise.all(writes);
+    expect(calls).toEqual(['set {"a":2,"c":3}', 'remove b']);
+  });
+
+  it('writes once the delay after the first change has passed, however many follow', async () => {
+    const { storage, calls } = createRecordingStorage();
+    const buffered = createBufferedStorage(storage, DELAY);
+    buffered.set({ a: 1 });
+    await vi.advanceTimersByTimeAsync(DELAY / 2);
+    buffered.set({ a: 2 });
+    await vi.advanceTimersByTimeAsync(DELAY / 2);
+    expect(calls).toEqual(['set {"a":2}']);
+  });
+
+  it('serves pending changes from get before they are written', async () => {
+    const { storage } = createRecordingStorage();
+    await storage.set({ a: 1, b: 1 });
+    const buffered = createBufferedStorage(storage, DELAY);
+    buffered.set({ a: 2 });
+    buffered.remove(['b']);
+    expect(await buffered.get(['a', 'b'])).toEqual({ a: 2 });
+  });
+
+  it('writes batches in order even when an earlier one is slow', async () => {
+    const { storage, calls, items, hold } = createRecordingStorage();
+    const buffered = createBufferedStorage(storage, DELAY);
+    const release = hold();
+    buffered.set({ a: 1 });
+    const first = buffered.flush();
+    buffered.set({ a: 2 });
+    const second = buffered.flush();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls).toEqual(['set {"a":1}']);
+
+    release();
+    await Promise.all([first, second]);
+    expect(calls).toEqual(['set {"a":1}', 'set {"a":2}']);
+    expect(items.get('a')).toBe(2);
+  });
+
+  it('rejects the pending writes of a batch that fails', async () => {
+    const { storage } = createRecordingStorage();
+    storage.set = async () => {
+      throw new Error('quota exceeded');
+    };
+    const buffered = createBufferedStorage(storage, DELAY);
+    const write = buffered.set({ a: 1 });
+    const failed = expect(write).rejects.toThrow('quota exceeded');
+    await vi.advanceTimersByTimeAsync(DELAY);
+    await failed;
+  });
+});
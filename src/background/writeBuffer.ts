@@ -0,0 +1,96 @@
+// Coalescing layer in front of chrome.storage. Keys set or removed are marked
+// dirty and written together once the delay has passed since the first of
+// them, so a burst of changes costs a single set and remove call holding only
+// the latest value of each key. The window is not extended by later writes,
+// which keeps a steady stream of changes from postponing the write forever.
+import type { StorageAdapter } from './timingEngine';
+
+export type BufferedStorage = StorageAdapter & {
+  // Write everything pending now, as when the service worker is suspended
+  flush(): Promise<void>;
+};
+
+interface Waiter {
+  resolve: () => void;
+  reject: (err: Error) => void;
+}
+
+export function createBufferedStorage(storage: StorageAdapter, delay: number): BufferedStorage {
+  let pendingSets = new Map<string, unknown>();
+  let pendingRemovals = new Set<string>();
+  let waiters: Waiter[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Batches are written one after another so an older one never lands last
+  let writing: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const items = Object.fromEntries(pendingSets);
+    const removals = [...pendingRemovals];
+    const settled = waiters;
+    pendingSets = new Map();
+    pendingRemovals = new Set();
+    waiters = [];
+
+    const result = writing.then(async () => {
+      if (Object.keys(items).length > 0) {
+        await storage.set(items);
+      }
+      if (removals.length > 0) {
+        await storage.remove(removals);
+      }
+    });
+    writing = result.catch(() => undefined);
+    result.then(
+      () => settled.forEach((waiter) => waiter.resolve()),
+      (err: Error) => settled.forEach((waiter) => waiter.reject(err))
+    );
+    return result;
+  };
+
+  // Resolves once the change has been written
+  const schedule = () =>
+    new Promise<void>((resolve, reject) => {
+      waiters.push({ resolve, reject });
+      if (timer === null) {
+        timer = setTimeout(() => {
+          flush().catch(() => undefined);
+        }, delay);
+      }
+    });
+
+  return {
+    // Stored values with pending changes applied on top
+    get: async (keys) => {
+      await writing;
+      const result = await storage.get(keys);
+      keys.forEach((key) => {
+        if (pendingSets.has(key)) {
+          result[key] = pendingSets.get(key);
+        } else if (pendingRemovals.has(key)) {
+          delete result[key];
+        }
+      });
+      return result;
+    },
+    set: (items) => {
+      Object.entries(items).forEach(([key, value]) => {
+        pendingSets.set(key, value);
+        pendingRemovals.delete(key);
+      });
+      return schedule();
+    },
+    remove: (keys) => {
+      keys.forEach((key) => {
+        pendingRemovals.add(key);
+        pendingSets.delete(key);
+      });
+      return schedule();
+    },
+    flush,
+  };
+}
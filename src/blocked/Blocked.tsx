@@ -0,0 +1,30 @@
+import './Blocked.css';
+
+// Shown in place of a site whose daily budget has run out. The background
+// passes the budget and the address that was blocked in the query string.
+function Blocked() {
+  const params = new URLSearchParams(window.location.search);
+  const budget = params.get('budget') ?? 'This site';
+  const minutes = params.get('minutes');
+  const url = params.get('url');
+
+  return (
+    <div className="blocked">
+      <div className="blocked-card">
+        <div className="blocked-icon">⏳</div>
+        <h1>Time's up for today</h1>
+        <p className="blocked-message">
+          {minutes
+            ? `You have used your ${minutes} minutes on ${budget} for today.`
+            : `You have used your time on ${budget} for today.`}
+        </p>
+        {url && <p className="blocked-url" title={url}>{url}</p>}
+        <p className="blocked-hint">
+          The budget resets at midnight. You can change or turn it off under Budgets in the extension popup.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default Blocked;
@@ -0,0 +1,243 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { sendMessage } from '../shared/messages';
+import type { AnalyticsRange, DomainStats } from '../shared/types';
+import { EXCLUDED_HOSTNAME } from '../shared/url';
+import './Analytics.css';
+
+type Metric = 'activeTime' | 'openTime';
+
+interface AnalyticsProps {
+  onBack: () => void;
+}
+
+const RANGE_LABELS: Record<AnalyticsRange, string> = {
+  day: 'Today',
+  week: 'This Week',
+  month: 'This Month',
+};
+
+const TOP_N_OPTIONS = [5, 10, 25];
+
+function Analytics({ onBack }: AnalyticsProps) {
+  const [range, setRange] = useState<AnalyticsRange>('day');
+  const [metric, setMetric] = useState<Metric>('activeTime');
+  const [topN, setTopN] = useState<number>(10);
+  const [domains, setDomains] = useState<DomainStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  const loadStats = useCallback(() => {
+    setLoading(true);
+    sendMessage({ action: 'getDomainStats', range })
+      .then((stats) => {
+        setDomains(stats.domains);
+        setError('');
+      })
+      .catch((err: Error) => {
+        setError('Failed to load analytics: ' + err.message);
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [range]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  // Purge the site's timing and history, then show the totals without it
+  const forgetSite = (hostname: string) => {
+    if (!confirm(`Forget everything recorded about ${hostname}? This removes its timing, closed tab history, rule and undo log entries, workspace tabs and today's budget usage.`)) return;
+    sendMessage({ action: 'forgetSite', hostname })
+      .then(loadStats)
+      .catch((err: Error) => setError('Failed to forget site: ' + err.message));
+  };
+
+  const formatDuration = (milliseconds: number): string => {
+    if (milliseconds < 1000) return '0s';
+
+    const seconds = Math.floor(milliseconds / 1000);
+    const minutes = Math.floor(seconds / 60);
+    const hours = Math.floor(minutes / 60);
+    const remainingMinutes = minutes % 60;
+    const remainingSeconds = seconds % 60;
+
+    if (hours > 0) {
+      return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
+    } else if (minutes > 0) {
+      return remainingSeconds > 0 ? `${minutes}m ${remainingSeconds}s` : `${minutes}m`;
+    } else {
+      return `${seconds}s`;
+    }
+  };
+
+  const topDomains = useMemo(
+    () => [...domains].sort((a, b) => b[metric] - a[metric]).slice(0, topN),
+    [domains, metric, topN]
+  );
+
+  const totals = useMemo(() => domains.reduce(
+    (sum, domain) => ({ activeTime: sum.activeTime + domain.activeTime, openTime: sum.openTime + domain.openTime }),
+    { activeTime: 0, openTime: 0 }
+  ), [domains]);
+
+  const maxValue = topDomains.length > 0 ? topDomains[0][metric] : 0;
+
+  const download = (content: string, type: string, extension: string) => {
+    const blob = new Blob([content], { type });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `domain-time-${range}-${new Date().toISOString().split('T')[0]}.${extension}`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const exportCsv = () => {
+    const csvContent = [
+      ['Domain', 'Active Time (ms)', 'Open Time (ms)', 'Tabs', 'Open Tabs'],
+      ...domains.map(domain => [
+        domain.hostname,
+        domain.activeTime.toString(),
+        domain.openTime.toString(),
+        domain.tabCount.toString(),
+        domain.openTabCount.toString()
+      ])
+    ].map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+    download(csvContent, 'text/csv;charset=utf-8;', 'csv');
+  };
+
+  const exportJson = () => {
+    download(JSON.stringify({ range, exportedAt: Date.now(), domains }, null, 2), 'application/json', 'json');
+  };
+
+  return (
+    <div className="analytics">
+      {/* Header */}
+      <div className="analytics-header">
+        <button className="back-btn" onClick={onBack}>
+          ◀ Back to Tabs
+        </button>
+        <h1>Time by Domain</h1>
+      </div>
+
+      {/* Range and metric controls */}
+      <div className="analytics-controls">
+        <div className="range-tabs">
+          {(Object.keys(RANGE_LABELS) as AnalyticsRange[]).map((value) => (
+            <button
+              key={value}
+              className={`range-tab ${range === value ? 'selected' : ''}`}
+              onClick={() => setRange(value)}
+            >
+              {RANGE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+        <div className="analytics-selects">
+          <select value={metric} onChange={(e) => setMetric(e.target.value as Metric)}>
+            <option value="activeTime">Active Time</option>
+            <option value="openTime">Open Time</option>
+          </select>
+          <select value={topN} onChange={(e) => setTopN(Number(e.target.value))}>
+            {TOP_N_OPTIONS.map((n) => (
+              <option key={n} value={n}>Top {n}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="analytics-summary">
+        <div className="summary-card">
+          <span className="summary-label">Active</span>
+          <span className="summary-value">{formatDuration(totals.activeTime)}</span>
+        </div>
+        <div className="summary-card">
+          <span className="summary-label">Open</span>
+          <span className="summary-value">{formatDuration(totals.openTime)}</span>
+        </div>
+        <div className="summary-card">
+          <span className="summary-label">Domains</span>
+          <span className="summary-value">{domains.length}</span>
+        </div>
+      </div>
+
+      {error && <p className="analytics-error">{error}</p>}
+
+      {loading ? (
+        <div className="analytics-loading">Loading analytics...</div>
+      ) : topDomains.length === 0 ? (
+        <div className="analytics-empty">
+          <div className="empty-icon">📭</div>
+          <h3>No activity yet</h3>
+          <p>No tracked tabs in this time range.</p>
+        </div>
+      ) : (
+        <>
+          {/* Breakdown chart */}
+          <div className="domain-chart">
+            {topDomains.map((domain) => (
+              <div key={domain.hostname} className="chart-row" title={`${domain.hostname}: ${formatDuration(domain[metric])}`}>
+                <span className="chart-label">{domain.hostname}</span>
+                <div className="chart-track">
+                  <div
+                    className={`chart-bar ${metric}`}
+                    style={{ width: `${maxValue > 0 ? (domain[metric] / maxValue) * 100 : 0}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Top-N table */}
+          <table className="domain-table">
+            <thead>
+              <tr>
+                <th>Domain</th>
+                <th>Active</th>
+                <th>Open</th>
+                <th>Tabs</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {topDomains.map((domain) => (
+                <tr key={domain.hostname}>
+                  <td className="domain-name">{domain.hostname}</td>
+                  <td>{formatDuration(domain.activeTime)}</td>
+                  <td>{formatDuration(domain.openTime)}</td>
+                  <td>{domain.tabCount}{domain.openTabCount > 0 ? ` (${domain.openTabCount} open)` : ''}</td>
+                  <td>
+                    {domain.hostname !== EXCLUDED_HOSTNAME && (
+                      <button
+                        className="forget-site-btn"
+                        onClick={() => forgetSite(domain.hostname)}
+                        title={`Forget ${domain.hostname}`}
+                        aria-label={`Forget ${domain.hostname}`}
+                      >
+                        🗑
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {/* Export */}
+      <div className="analytics-actions">
+        <button className="analytics-refresh" onClick={loadStats}>↻ Refresh</button>
+        <button className="analytics-export" onClick={exportCsv} disabled={domains.length === 0}>📊 Export CSV</button>
+        <button className="analytics-export" onClick={exportJson} disabled={domains.length === 0}>🧾 Export JSON</button>
+      </div>
+    </div>
+  );
+}
+
+export default Analytics;
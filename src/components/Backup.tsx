@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { readBackupFile } from '../shared/backup';
+import { downloadFile } from '../shared/exporters';
+import { sendMessage } from '../shared/messages';
+import type { BackupFile, ImportMode, ImportSection, ImportSummary } from '../shared/types';
+import './Backup.css';
+
+interface BackupProps {
+  onBack: () => void;
+}
+
+const SECTION_LABELS: Record<ImportSection, string> = {
+  tabTiming: 'Tab timing',
+  tabInfo: 'Tab info',
+  closedTabs: 'Closed history',
+  workspaces: 'Workspaces',
+  settings: 'Settings',
+};
+
+// Backup file and the changes importing it would make
+interface PendingImport {
+  fileName: string;
+  backup: BackupFile;
+  summary: ImportSummary | null;
+}
+
+function Backup({ onBack }: BackupProps) {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [error, setError] = useState<string>('');
+  const [status, setStatus] = useState<string>('');
+  const [busy, setBusy] = useState(false);
+
+  // Recompute the diff whenever the file or the import mode changes
+  const backup = pending?.backup;
+  useEffect(() => {
+    if (!backup) return;
+    sendMessage({ action: 'previewImport', backup, mode })
+      .then(({ summary }) => setPending((current) => current && current.backup === backup ? { ...current, summary } : current))
+      .catch((err: Error) => setError('Failed to compare backup: ' + err.message));
+  }, [backup, mode]);
+
+  const exportBackup = () => {
+    setBusy(true);
+    sendMessage({ action: 'exportBackup' })
+      .then(({ backup }) => {
+        const date = new Date(backup.exportedAt).toISOString().split('T')[0];
+        downloadFile(JSON.stringify(backup, null, 2), `tab-manager-backup-${date}.json`, 'application/json');
+        setStatus(`Exported ${backup.closedTabs.length} closed tabs and ${backup.workspaces.length} workspaces`);
+        setError('');
+      })
+      .catch((err: Error) => setError('Failed to export backup: ' + err.message))
+      .finally(() => setBusy(false));
+  };
+
+  const chooseFile = (file: File | undefined) => {
+    setStatus('');
+    setPending(null);
+    if (!file) return;
+    file.text()
+      .then((text) => {
+        setPending({ fileName: file.name, backup: readBackupFile(text), summary: null });
+        setError('');
+      })
+      .catch((err: Error) => setError(`Cannot import ${file.name}: ${err.message}`));
+  };
+
+  const applyImport = () => {
+    if (!pending) return;
+    if (mode === 'replace' && !confirm('Replace all current data with the contents of this backup?')) return;
+    setBusy(true);
+    sendMessage({ action: 'importBackup', backup: pending.backup, mode })
+      .then(() => {
+        setStatus(`Imported ${pending.fileName}`);
+        setPending(null);
+        setError('');
+      })
+      .catch((err: Error) => setError('Failed to import backup: ' + err.message))
+      .finally(() => setBusy(false));
+  };
+
+  return (
+    <div className="backup">
+      {/* Header */}
+      <div className="backup-header">
+        <button className="back-btn" onClick={onBack}>
+          ◀ Back to Tabs
+        </button>
+        <h1>Backup</h1>
+      </div>
+
+      {error && <p className="backup-error">{error}</p>}
+      {status && <p className="backup-status">{status}</p>}
+
+      <section className="backup-section">
+        <h3>Export</h3>
+        <p className="backup-hint">
+          Tab timing, closed tab history, workspaces, rules, saved searches and settings in one JSON file.
+        </p>
+        <button className="backup-btn primary" onClick={exportBackup} disabled={busy}>
+          Download backup
+        </button>
+      </section>
+
+      <section className="backup-section">
+        <h3>Import</h3>
+        <input
+          className="backup-file"
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => chooseFile(e.target.files?.[0])}
+        />
+        <div className="backup-modes">
+          <label>
+            <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+            Merge with current data
+          </label>
+          <label>
+            <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+            Replace current data
+          </label>
+        </div>
+
+        {pending && (
+          <div className="backup-preview">
+            <div className="backup-preview-title">
+              {pending.fileName} • exported {new Date(pending.backup.exportedAt).toLocaleString()}
+            </div>
+            {pending.summary ? (
+              <table className="backup-diff">
+                <thead>
+                  <tr>
+                    <th></th>
+                    <th>Added</th>
+                    <th>Updated</th>
+                    <th>Removed</th>
+                    <th>Unchanged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(SECTION_LABELS) as ImportSection[]).map((section) => {
+                    const counts = pending.summary![section];
+                    return (
+                      <tr key={section}>
+                        <th>{SECTION_LABELS[section]}</th>
+                        <td className={counts.added ? 'added' : ''}>{counts.added}</td>
+                        <td className={counts.updated ? 'updated' : ''}>{counts.updated}</td>
+                        <td className={counts.removed ? 'removed' : ''}>{counts.removed}</td>
+                        <td>{counts.unchanged}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <div className="backup-hint">Comparing with current data...</div>
+            )}
+            <div className="backup-actions">
+              <button className="backup-btn primary" onClick={applyImport} disabled={busy || !pending.summary}>
+                {mode === 'merge' ? 'Merge backup' : 'Replace data'}
+              </button>
+              <button className="backup-btn" onClick={() => setPending(null)} disabled={busy}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+export default Backup;
@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { sendMessage } from '../shared/messages';
+import type { BudgetStatus, DomainBudget } from '../shared/types';
+import './Budgets.css';
+
+interface BudgetsProps {
+  onBack: () => void;
+}
+
+// How often progress is refreshed while the view is open
+const REFRESH_INTERVAL = 15 * 1000;
+
+const createBudget = (): DomainBudget => ({
+  id: crypto.randomUUID(),
+  name: 'New budget',
+  enabled: true,
+  domainPattern: '',
+  minutesPerDay: 30,
+  block: false,
+});
+
+const formatDuration = (milliseconds: number) => {
+  const minutes = Math.floor(milliseconds / 60000);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
+
+function Budgets({ onBack }: BudgetsProps) {
+  const [budgets, setBudgets] = useState<DomainBudget[]>([]);
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    sendMessage({ action: 'getBudgets' })
+      .then(({ budgets, statuses }) => {
+        setBudgets(budgets);
+        setStatuses(statuses);
+      })
+      .catch((err: Error) => setError('Failed to load budgets: ' + err.message))
+      .finally(() => setLoading(false));
+
+    // Only progress is refreshed so unsaved edits are kept
+    const interval = setInterval(() => {
+      sendMessage({ action: 'getBudgets' })
+        .then(({ statuses }) => setStatuses(statuses))
+        .catch((err: Error) => setError('Failed to load budgets: ' + err.message));
+    }, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const editBudgets = (next: DomainBudget[]) => {
+    setBudgets(next);
+    setDirty(true);
+  };
+
+  const updateBudget = (id: string, change: Partial<DomainBudget>) => {
+    editBudgets(budgets.map((budget) => (budget.id === id ? { ...budget, ...change } : budget)));
+  };
+
+  const saveBudgets = () => {
+    const incomplete = budgets.find((budget) => !budget.domainPattern.trim());
+    if (incomplete) {
+      setError(`Enter the sites "${incomplete.name}" applies to`);
+      return;
+    }
+    sendMessage({ action: 'setBudgets', budgets })
+      .then(({ budgets, statuses }) => {
+        setBudgets(budgets);
+        setStatuses(statuses);
+        setDirty(false);
+        setError('');
+      })
+      .catch((err: Error) => setError('Failed to save budgets: ' + err.message));
+  };
+
+  return (
+    <div className="budgets">
+      {/* Header */}
+      <div className="budgets-header">
+        <button className="back-btn" onClick={onBack}>
+          ◀ Back to Tabs
+        </button>
+        <h1>Time Budgets</h1>
+      </div>
+
+      <p className="budgets-hint">
+        Daily limits on active time per site. You are warned at 80% and 100%, and budgets reset at midnight.
+      </p>
+
+      {error && <p className="budgets-error">{error}</p>}
+
+      {loading ? (
+        <div className="budgets-loading">Loading budgets...</div>
+      ) : (
+        <>
+          <ul className="budget-list">
+            {budgets.map((budget) => {
+              const status = statuses.find((s) => s.budgetId === budget.id);
+              const usedMs = status?.usedMs ?? 0;
+              const limitMs = budget.minutesPerDay * 60000;
+              const share = Math.min(1, usedMs / limitMs);
+              const level = share >= 1 ? 'exhausted' : share >= 0.8 ? 'warning' : '';
+              return (
+                <li key={budget.id} className={`budget-item ${budget.enabled ? '' : 'disabled'}`}>
+                  <div className="budget-row">
+                    <input
+                      type="checkbox"
+                      checked={budget.enabled}
+                      onChange={(e) => updateBudget(budget.id, { enabled: e.target.checked })}
+                      title="Enabled"
+                    />
+                    <input
+                      className="budget-input budget-name"
+                      value={budget.name}
+                      onChange={(e) => updateBudget(budget.id, { name: e.target.value })}
+                    />
+                    <button
+                      className="budget-btn danger"
+                      onClick={() => editBudgets(budgets.filter((b) => b.id !== budget.id))}
+                      title="Delete"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  <div className="budget-row">
+                    <label className="budget-label">Sites</label>
+                    <input
+                      className="budget-input"
+                      value={budget.domainPattern}
+                      placeholder="reddit.com, *.youtube.com"
+                      onChange={(e) => updateBudget(budget.id, { domainPattern: e.target.value })}
+                    />
+                  </div>
+                  <div className="budget-row">
+                    <label className="budget-label">Limit</label>
+                    <input
+                      className="budget-input budget-number"
+                      type="number"
+                      min={1}
+                      value={budget.minutesPerDay}
+                      onChange={(e) => updateBudget(budget.id, { minutesPerDay: Math.max(1, Number(e.target.value)) })}
+                    />
+                    <span className="budget-suffix">minutes a day</span>
+                    <label className="budget-block">
+                      <input
+                        type="checkbox"
+                        checked={budget.block}
+                        onChange={(e) => updateBudget(budget.id, { block: e.target.checked })}
+                      />
+                      Block when used up
+                    </label>
+                  </div>
+                  <div className="budget-progress">
+                    <div className={`budget-progress-bar ${level}`} style={{ width: `${share * 100}%` }} />
+                  </div>
+                  <div className="budget-progress-label">
+                    {formatDuration(usedMs)} of {formatDuration(limitMs)} used today
+                    {usedMs < limitMs && ` • ${formatDuration(limitMs - usedMs)} left`}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          {budgets.length === 0 && (
+            <div className="budgets-empty">No budgets yet. Time on every site is unlimited.</div>
+          )}
+
+          <div className="budgets-actions">
+            <button className="budget-btn" onClick={() => editBudgets([...budgets, createBudget()])}>
+              + Add budget
+            </button>
+            <button className="budget-btn primary" onClick={saveBudgets} disabled={!dirty}>
+              💾 Save budgets
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default Budgets;
@@ -1,16 +1,68 @@
 import { useState, useEffect, useMemo } from 'react';
+import { DAY_MS, getDateStart, getDayStart } from '../shared/days';
+import { downloadFile, toBookmarksHtml, toCsv, toMarkdownLinks } from '../shared/exporters';
+import { sendMessage } from '../shared/messages';
+import { filterAndSortClosedTabs, type ClosedTabFilter, type ClosedTabSort } from '../shared/tabFilters';
+import type { ClosedTabData, RetentionPolicy } from '../shared/types';
+import { EXCLUDED_URL, getHostname } from '../shared/url';
+import SearchBox from './SearchBox';
+import TabTimeline from './TabTimeline';
 import './ClosedTabs.css';
 
-interface ClosedTabData {
-  id: number;
-  closedAt: number;
-  openedAt: number;
-  totalActiveTime: number;
-  totalTimeOpen: number;
-  title?: string;
-  url?: string;
-  favIconUrl?: string;
-}
+type DateRange = 'today' | 'yesterday' | 'week' | 'month' | 'all' | 'custom';
+type ExportFormat = 'csv' | 'html' | 'markdown';
+
+const PAGE_SIZE = 50;
+
+const RANGE_LABELS: Record<DateRange, string> = {
+  today: 'Today',
+  yesterday: 'Yesterday',
+  week: 'Last 7 Days',
+  month: 'Last 30 Days',
+  all: 'All Time',
+  custom: 'Custom Range',
+};
+
+// Choices for restoring everything closed in the last few minutes
+const RESTORE_MINUTES = [5, 15, 30, 60];
+
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV spreadsheet',
+  html: 'Bookmarks HTML',
+  markdown: 'Markdown links',
+};
+
+// Parse a yyyy-mm-dd value from a date input as the start of that day
+const parseDateInput = (value: string, dayStartHour: number): number | undefined =>
+  value ? getDateStart(value, dayStartHour) : undefined;
+
+// Convert the selected range into closedAt bounds for the background query,
+// in days that begin at the tracking settings' hour as in insights
+const getRangeBounds = (
+  range: DateRange,
+  customFrom: string,
+  customTo: string,
+  dayStartHour: number
+): { from?: number; to?: number } => {
+  const today = getDayStart(Date.now(), dayStartHour);
+  switch (range) {
+    case 'today':
+      return { from: today };
+    case 'yesterday':
+      return { from: today - DAY_MS, to: today - 1 };
+    case 'week':
+      return { from: today - 6 * DAY_MS };
+    case 'month':
+      return { from: today - 29 * DAY_MS };
+    case 'custom': {
+      const from = parseDateInput(customFrom, dayStartHour);
+      const to = parseDateInput(customTo, dayStartHour);
+      return { from, to: to !== undefined ? to + DAY_MS - 1 : undefined };
+    }
+    default:
+      return {};
+  }
+};
 
 interface ClosedTabsProps {
   onBack: () => void;
@@ -20,24 +72,73 @@ function ClosedTabs({ onBack }: ClosedTabsProps) {
   const [closedTabs, setClosedTabs] = useState<ClosedTabData[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState<string>('');
-  const [filterBy, setFilterBy] = useState<'all' | 'short' | 'medium' | 'long'>('all');
-  const [sortBy, setSortBy] = useState<'closed' | 'opened' | 'active' | 'total'>('closed');
+  const [filterBy, setFilterBy] = useState<ClosedTabFilter>('all');
+  const [sortBy, setSortBy] = useState<ClosedTabSort>('closed');
+  const [dateRange, setDateRange] = useState<DateRange>('today');
+  const [customFrom, setCustomFrom] = useState<string>('');
+  const [customTo, setCustomTo] = useState<string>('');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [retention, setRetention] = useState<RetentionPolicy | null>(null);
+  const [showRetention, setShowRetention] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  // Null until the tracking settings have loaded
+  const [dayStartHour, setDayStartHour] = useState<number | null>(null);
 
   useEffect(() => {
+    if (dayStartHour === null) return;
     loadClosedTabs();
+  }, [dateRange, customFrom, customTo, dayStartHour]);
+
+  useEffect(() => {
+    sendMessage({ action: 'getTrackingSettings' })
+      .then(({ settings }) => setDayStartHour(settings.dayStartHour))
+      .catch((err: Error) => {
+        console.warn('Failed to get tracking settings:', err.message);
+        setDayStartHour(0);
+      });
+  }, []);
+
+  useEffect(() => {
+    sendMessage({ action: 'getRetentionPolicy' })
+      .then(({ policy }) => setRetention(policy))
+      .catch((err: Error) => console.warn('Failed to get retention policy:', err.message));
   }, []);
 
-  const loadClosedTabs = () => {
-    chrome.runtime.sendMessage({ action: 'getClosedTabs' }, (response: any) => {
-      if (chrome.runtime.lastError) {
-        console.warn('Failed to get closed tabs:', chrome.runtime.lastError.message);
-        setClosedTabs([]);
-      } else if (response && response.closedTabs) {
+  // Load the first page of the selected range, or the page after `cursor`
+  const loadClosedTabs = (cursor?: string) => {
+    const { from, to } = getRangeBounds(dateRange, customFrom, customTo, dayStartHour ?? 0);
+    if (cursor) {
+      setLoadingMore(true);
+    }
+    sendMessage({ action: 'getClosedTabs', from, to, cursor, limit: PAGE_SIZE })
+      .then((page) => {
         // Use the actual tab data from background script
-        setClosedTabs(response.closedTabs);
-      }
-      setLoading(false);
-    });
+        setClosedTabs(prev => (cursor ? [...prev, ...page.closedTabs] : page.closedTabs));
+        setNextCursor(page.nextCursor);
+        setTotal(page.total);
+      })
+      .catch((err: Error) => {
+        console.warn('Failed to get closed tabs:', err.message);
+        if (!cursor) {
+          setClosedTabs([]);
+        }
+      })
+      .finally(() => {
+        setLoading(false);
+        setLoadingMore(false);
+      });
+  };
+
+  const saveRetention = (policy: RetentionPolicy) => {
+    sendMessage({ action: 'setRetentionPolicy', policy })
+      .then(({ policy: saved }) => {
+        setRetention(saved);
+        setShowRetention(false);
+        loadClosedTabs();
+      })
+      .catch((err: Error) => console.warn('Failed to save retention policy:', err.message));
   };
 
   const formatDateTime = (timestamp: number): string => {
@@ -69,102 +170,70 @@ function ClosedTabs({ onBack }: ClosedTabsProps) {
     return totalTime > 0 ? Math.round((activeTime / totalTime) * 100) : 0;
   };
 
-  const getHostname = (url?: string): string => {
-    try {
-      if (!url || url.startsWith('chrome://')) return 'Unknown';
-      const hostname = new URL(url).hostname;
-      return hostname.replace(/^www\./, '');
-    } catch {
-      return 'Unknown';
-    }
+  const getDisplayHostname = (url?: string): string => {
+    if (!url || url.startsWith('chrome://')) return 'Unknown';
+    return getHostname(url) || 'Unknown';
   };
 
+  const getHistoryKey = (tab: ClosedTabData): number => tab.historyId ?? tab.id;
+
+  const hasTimeline = (tab: ClosedTabData): boolean => !!(tab.activeIntervals?.length || tab.pages?.length);
+
+  const isExpanded = (tab: ClosedTabData): boolean => expandedId === getHistoryKey(tab);
+
+  // The background restores the tab in place and drops it from the history
   const reopenTab = (tab: ClosedTabData) => {
-    if (tab.url && !tab.url.startsWith('chrome://')) {
-      chrome.runtime.sendMessage({ 
-        action: 'reopenTab', 
-        url: tab.url, 
-        title: tab.title 
-      }, (response: any) => {
-        if (chrome.runtime.lastError) {
-          console.warn('Failed to reopen tab:', chrome.runtime.lastError.message);
-        } else if (response && response.success) {
-          console.log('Tab reopened successfully:', response.tabId);
-        }
+    const historyId = tab.historyId;
+    if (historyId === undefined) return;
+    sendMessage({ action: 'reopenTab', historyId })
+      .then(() => {
+        setClosedTabs(prev => prev.filter((closed) => closed.historyId !== historyId));
+        setTotal(prev => Math.max(prev - 1, 0));
+      })
+      .catch((err: Error) => {
+        console.warn('Failed to reopen tab:', err.message);
       });
-    }
   };
 
-  const exportData = () => {
-    const csvContent = [
-      ['Title', 'URL', 'Opened At', 'Closed At', 'Total Time Open', 'Active Usage Time', 'Usage Efficiency %'],
-      ...filteredAndSortedTabs.map(tab => [
-        tab.title || 'Untitled',
-        tab.url || 'Unknown',
-        formatDateTime(tab.openedAt),
-        formatDateTime(tab.closedAt),
-        formatDuration(tab.totalTimeOpen),
-        formatDuration(tab.totalActiveTime),
-        getUsagePercentage(tab.totalActiveTime, tab.totalTimeOpen).toString()
-      ])
-    ].map(row => row.map(cell => `"${cell}"`).join(',')).join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `closed-tabs-${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const restoreRecentlyClosed = (minutes: number) => {
+    sendMessage({ action: 'restoreRecentlyClosed', minutes })
+      .then(() => loadClosedTabs())
+      .catch((err: Error) => {
+        console.warn('Failed to restore closed tabs:', err.message);
+      });
   };
 
-  const filteredAndSortedTabs = useMemo(() => {
-    let filtered = closedTabs;
-
-    // Apply search filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(tab => 
-        (tab.title || '').toLowerCase().includes(query) || 
-        (tab.url || '').toLowerCase().includes(query)
-      );
-    }
-
-    // Apply duration filter
-    switch (filterBy) {
-      case 'short':
-        filtered = filtered.filter(tab => tab.totalTimeOpen < 5 * 60 * 1000); // < 5 minutes
+  const exportData = (format: ExportFormat) => {
+    const date = new Date().toISOString().split('T')[0];
+    const links = filteredAndSortedTabs.map((tab) => ({ title: tab.title, url: tab.url, addedAt: tab.closedAt }));
+    switch (format) {
+      case 'csv':
+        downloadFile(toCsv([
+          ['Title', 'URL', 'Opened At', 'Closed At', 'Total Time Open', 'Active Usage Time', 'Usage Efficiency %'],
+          ...filteredAndSortedTabs.map(tab => [
+            tab.title || 'Untitled',
+            tab.url || 'Unknown',
+            formatDateTime(tab.openedAt),
+            formatDateTime(tab.closedAt),
+            formatDuration(tab.totalTimeOpen),
+            formatDuration(tab.totalActiveTime),
+            getUsagePercentage(tab.totalActiveTime, tab.totalTimeOpen).toString()
+          ])
+        ]), `closed-tabs-${date}.csv`, 'text/csv;charset=utf-8;');
         break;
-      case 'medium':
-        filtered = filtered.filter(tab => 
-          tab.totalTimeOpen >= 5 * 60 * 1000 && tab.totalTimeOpen < 60 * 60 * 1000
-        ); // 5 min to 1 hour
+      case 'html':
+        downloadFile(toBookmarksHtml(links, `Closed tabs ${date}`), `closed-tabs-${date}.html`, 'text/html;charset=utf-8;');
         break;
-      case 'long':
-        filtered = filtered.filter(tab => tab.totalTimeOpen >= 60 * 60 * 1000); // >= 1 hour
-        break;
-    }
-
-    // Apply sorting
-    switch (sortBy) {
-      case 'closed':
-        filtered = [...filtered].sort((a, b) => b.closedAt - a.closedAt);
-        break;
-      case 'opened':
-        filtered = [...filtered].sort((a, b) => b.openedAt - a.openedAt);
-        break;
-      case 'active':
-        filtered = [...filtered].sort((a, b) => b.totalActiveTime - a.totalActiveTime);
-        break;
-      case 'total':
-        filtered = [...filtered].sort((a, b) => b.totalTimeOpen - a.totalTimeOpen);
+      case 'markdown':
+        downloadFile(toMarkdownLinks(links), `closed-tabs-${date}.md`, 'text/markdown;charset=utf-8;');
         break;
     }
+  };
 
-    return filtered;
-  }, [closedTabs, searchQuery, filterBy, sortBy]);
+  const filteredAndSortedTabs = useMemo(
+    () => filterAndSortClosedTabs(closedTabs, searchQuery, filterBy, sortBy, dayStartHour ?? 0),
+    [closedTabs, searchQuery, filterBy, sortBy, dayStartHour]
+  );
 
   if (loading) {
     return (
@@ -183,28 +252,90 @@ function ClosedTabs({ onBack }: ClosedTabsProps) {
         </button>
         <h1>Closed Tabs History</h1>
         <div className="header-info">
-          <span className="date">{new Date().toLocaleDateString()}</span>
-          <span className="count">{closedTabs.length} tabs closed today</span>
+          <span className="date">
+            {dateRange === 'today' ? new Date().toLocaleDateString() : RANGE_LABELS[dateRange]}
+          </span>
+          <span className="count">{total} tab{total === 1 ? '' : 's'} closed</span>
+          <button
+            className="retention-toggle"
+            onClick={() => setShowRetention(!showRetention)}
+            title="History retention settings"
+          >
+            ⚙️
+          </button>
         </div>
+        {showRetention && retention && (
+          <form
+            className="retention-form"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const data = new FormData(e.currentTarget);
+              saveRetention({
+                maxAgeDays: Number(data.get('maxAgeDays')),
+                maxEntries: Number(data.get('maxEntries')),
+              });
+            }}
+          >
+            <label>
+              Keep for
+              <input name="maxAgeDays" type="number" min={1} defaultValue={retention.maxAgeDays} required />
+              days
+            </label>
+            <label>
+              Keep at most
+              <input name="maxEntries" type="number" min={1} defaultValue={retention.maxEntries} required />
+              tabs
+            </label>
+            <button type="submit" className="retention-save">Save</button>
+          </form>
+        )}
       </div>
 
       {/* Toolbar */}
       <div className="toolbar">
         <div className="search-section">
-          <input
-            className="search"
-            type="text"
-            placeholder="Search closed tabs..."
+          <SearchBox
+            placeholder="Search closed tabs, e.g. closed:today -youtube"
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={setSearchQuery}
           />
         </div>
         
+        <div className="range-section">
+          <select
+            className="range-select"
+            value={dateRange}
+            onChange={(e) => setDateRange(e.target.value as DateRange)}
+          >
+            {(Object.keys(RANGE_LABELS) as DateRange[]).map((range) => (
+              <option key={range} value={range}>{RANGE_LABELS[range]}</option>
+            ))}
+          </select>
+          {dateRange === 'custom' && (
+            <>
+              <input
+                className="date-input"
+                type="date"
+                value={customFrom}
+                max={customTo || undefined}
+                onChange={(e) => setCustomFrom(e.target.value)}
+              />
+              <input
+                className="date-input"
+                type="date"
+                value={customTo}
+                min={customFrom || undefined}
+                onChange={(e) => setCustomTo(e.target.value)}
+              />
+            </>
+          )}
+        </div>
+
         <div className="filters-section">
           <select 
             className="filter-select"
             value={filterBy}
-            onChange={(e) => setFilterBy(e.target.value as any)}
+            onChange={(e) => setFilterBy(e.target.value as ClosedTabFilter)}
           >
             <option value="all">All Durations</option>
             <option value="short">Short (&lt; 5m)</option>
@@ -215,8 +346,9 @@ function ClosedTabs({ onBack }: ClosedTabsProps) {
           <select 
             className="sort-select"
             value={sortBy}
-            onChange={(e) => setSortBy(e.target.value as any)}
+            onChange={(e) => setSortBy(e.target.value as ClosedTabSort)}
           >
+            <option value="relevance">Sort by Best Match</option>
             <option value="closed">Sort by Closed Time</option>
             <option value="opened">Sort by Opened Time</option>
             <option value="active">Sort by Active Time</option>
@@ -227,10 +359,29 @@ function ClosedTabs({ onBack }: ClosedTabsProps) {
 
       {/* Results Meta */}
       <div className="result-meta">
-        {filteredAndSortedTabs.length} of {closedTabs.length} closed tabs
-        <button className="export-btn" onClick={exportData}>
-          📊 Export CSV
-        </button>
+        {filteredAndSortedTabs.length} of {total} closed tabs
+        <select
+          className="export-btn"
+          value=""
+          onChange={(e) => exportData(e.target.value as ExportFormat)}
+          disabled={filteredAndSortedTabs.length === 0}
+        >
+          <option value="">📊 Export...</option>
+          {(Object.keys(EXPORT_LABELS) as ExportFormat[]).map((format) => (
+            <option key={format} value={format}>{EXPORT_LABELS[format]}</option>
+          ))}
+        </select>
+        <select
+          className="restore-recent-btn"
+          value=""
+          onChange={(e) => restoreRecentlyClosed(Number(e.target.value))}
+          title="Reopen every tab closed within the chosen time"
+        >
+          <option value="">↩️ Restore recent...</option>
+          {RESTORE_MINUTES.map((minutes) => (
+            <option key={minutes} value={minutes}>Closed in the last {minutes} minutes</option>
+          ))}
+        </select>
       </div>
 
       {/* Closed Tabs List */}
@@ -243,7 +394,7 @@ function ClosedTabs({ onBack }: ClosedTabsProps) {
           </div>
         ) : (
           filteredAndSortedTabs.map((tab) => (
-            <div key={tab.id} className="closed-tab-item">
+            <div key={getHistoryKey(tab)} className="closed-tab-item">
               <div className="tab-info">
                 <div className="tab-icon">
                                      {tab.favIconUrl ? (
@@ -251,14 +402,14 @@ function ClosedTabs({ onBack }: ClosedTabsProps) {
                    ) : (
                      <div className="icon-fallback">
                        {(tab.title && tab.title !== 'Untitled Tab' ? tab.title.charAt(0) : 
-                         (tab.url && tab.url !== 'Unknown' ? getHostname(tab.url).charAt(0) : 'T')).toUpperCase()}
+                         (tab.url && tab.url !== 'Unknown' ? getDisplayHostname(tab.url).charAt(0) : 'T')).toUpperCase()}
                      </div>
                    )}
                 </div>
                 
                                  <div className="tab-content">
                    <div className="tab-title">{tab.title || 'Untitled Tab'}</div>
-                   <div className="tab-url">{tab.url && tab.url !== 'Unknown' ? getHostname(tab.url) : 'Unknown'}</div>
+                   <div className="tab-url">{tab.url && tab.url !== 'Unknown' ? getDisplayHostname(tab.url) : 'Unknown'}</div>
                   
                   <div className="tab-timing">
                     <span className="timing-opened">
@@ -284,7 +435,16 @@ function ClosedTabs({ onBack }: ClosedTabsProps) {
               </div>
               
               <div className="tab-actions">
-                {tab.url && !tab.url.startsWith('chrome://') && tab.url !== 'Unknown' && (
+                {hasTimeline(tab) && (
+                  <button
+                    className={`timeline-btn ${isExpanded(tab) ? 'active' : ''}`}
+                    onClick={() => setExpandedId(isExpanded(tab) ? null : getHistoryKey(tab))}
+                    title="Show when this tab was in focus and the pages it visited"
+                  >
+                    🕘 Timeline
+                  </button>
+                )}
+                {tab.historyId !== undefined && tab.url && !tab.url.startsWith('chrome://') && tab.url !== 'Unknown' && tab.url !== EXCLUDED_URL && (
                   <button 
                     className="reopen-btn"
                     onClick={() => reopenTab(tab)}
@@ -294,9 +454,28 @@ function ClosedTabs({ onBack }: ClosedTabsProps) {
                   </button>
                 )}
               </div>
+              {isExpanded(tab) && (
+                <div className="closed-tab-timeline">
+                  <TabTimeline
+                    openedAt={tab.openedAt}
+                    endedAt={tab.closedAt}
+                    activeIntervals={tab.activeIntervals ?? []}
+                    pages={tab.pages ?? []}
+                  />
+                </div>
+              )}
             </div>
           ))
         )}
+        {nextCursor && (
+          <button
+            className="load-more-btn"
+            onClick={() => loadClosedTabs(nextCursor)}
+            disabled={loadingMore}
+          >
+            {loadingMore ? 'Loading...' : `Load more (${closedTabs.length} of ${total})`}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,278 @@
+import { useState, useEffect, useMemo, useRef, type KeyboardEvent } from 'react';
+import { sendMessage } from '../shared/messages';
+import { filterAndSortClosedTabs, rankByFuzzyScore } from '../shared/tabFilters';
+import type { ClosedTabData } from '../shared/types';
+import { getHostname } from '../shared/url';
+import './CommandPalette.css';
+
+export type PaletteView = 'tabs' | 'closed' | 'analytics' | 'workspaces' | 'rules' | 'backup' | 'budgets';
+
+interface CommandPaletteProps {
+  onNavigate: (view: PaletteView) => void;
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+interface PaletteItem {
+  id: string;
+  kind: 'command' | 'tab' | 'closed';
+  label: string;
+  detail?: string;
+  // Commands that need a value ask for it in the palette before running
+  prompt?: string;
+  run: (input: string) => Promise<unknown> | void;
+}
+
+const KIND_LABELS: Record<PaletteItem['kind'], string> = {
+  command: 'Command',
+  tab: 'Tab',
+  closed: 'Closed',
+};
+
+const MAX_RESULTS = 50;
+const CLOSED_TAB_LIMIT = 100;
+
+function CommandPalette({ onNavigate, onChanged, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState<string>('');
+  const [openTabs, setOpenTabs] = useState<chrome.tabs.Tab[]>([]);
+  // The tab commands act on: the active tab of the window the popup belongs to
+  const [activeTab, setActiveTab] = useState<chrome.tabs.Tab | undefined>();
+  const [closedTabs, setClosedTabs] = useState<ClosedTabData[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [pending, setPending] = useState<PaletteItem | null>(null);
+  const [error, setError] = useState<string>('');
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    chrome.tabs.query({}, (tabs) => setOpenTabs(tabs));
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => setActiveTab(tabs[0]));
+    sendMessage({ action: 'getClosedTabs', limit: CLOSED_TAB_LIMIT })
+      .then(({ closedTabs }) => setClosedTabs(closedTabs))
+      .catch((err: Error) => console.warn('Failed to load closed tabs:', err.message));
+  }, []);
+
+  // Run an action, then close the palette and let the popup refresh
+  const finish = (action: Promise<unknown> | void) => {
+    Promise.resolve(action)
+      .then(() => {
+        onChanged();
+        onClose();
+      })
+      .catch((err: Error) => setError(err.message));
+  };
+
+  const commands = useMemo((): PaletteItem[] => {
+    const activeHostname = getHostname(activeTab?.url);
+    const items: PaletteItem[] = [
+      { id: 'view-closed', kind: 'command', label: 'Open history', run: () => onNavigate('closed') },
+      { id: 'view-analytics', kind: 'command', label: 'Open insights', run: () => onNavigate('analytics') },
+      { id: 'view-workspaces', kind: 'command', label: 'Open workspaces', run: () => onNavigate('workspaces') },
+      { id: 'view-rules', kind: 'command', label: 'Open tab rules', run: () => onNavigate('rules') },
+      { id: 'view-backup', kind: 'command', label: 'Back up or restore data', run: () => onNavigate('backup') },
+      { id: 'view-budgets', kind: 'command', label: 'Open time budgets', run: () => onNavigate('budgets') },
+      { id: 'open-options', kind: 'command', label: 'Open options', run: () => chrome.runtime.openOptionsPage() },
+      {
+        id: 'save-workspace',
+        kind: 'command',
+        label: 'Save workspace',
+        detail: 'Tabs of the current window',
+        prompt: 'Workspace name...',
+        run: (name) => sendMessage({ action: 'saveWorkspace', name, scope: 'current' }),
+      },
+      {
+        id: 'close-duplicates',
+        kind: 'command',
+        label: 'Close duplicate tabs',
+        run: () => sendMessage({ action: 'closeDuplicates' }),
+      },
+      { id: 'merge-windows', kind: 'command', label: 'Merge all windows', run: () => sendMessage({ action: 'mergeWindows' }) },
+      { id: 'run-rules', kind: 'command', label: 'Run tab rules now', run: () => sendMessage({ action: 'runRules' }) },
+      {
+        id: 'undo',
+        kind: 'command',
+        label: 'Undo tab operations',
+        detail: 'Closes, moves, groups and mutes, newest first',
+        prompt: 'Number of operations...',
+        run: (count) => Number.isInteger(Number(count)) && Number(count) > 0
+          ? sendMessage({ action: 'undo', count: Number(count) })
+          : Promise.reject(new Error('Enter a number of operations')),
+      },
+      {
+        id: 'restore-recent',
+        kind: 'command',
+        label: 'Restore recently closed tabs',
+        detail: 'Everything closed in the last N minutes',
+        prompt: 'Minutes...',
+        run: (minutes) => Number(minutes) > 0
+          ? sendMessage({ action: 'restoreRecentlyClosed', minutes: Number(minutes) })
+          : Promise.reject(new Error('Enter a number of minutes')),
+      },
+    ];
+    if (activeHostname) {
+      const tabIds = openTabs
+        .filter((tab) => tab.id !== undefined && getHostname(tab.url) === activeHostname)
+        .map((tab) => tab.id!);
+      items.splice(7, 0, {
+        id: 'close-domain',
+        kind: 'command',
+        label: 'Close tabs from this domain',
+        detail: `${tabIds.length} tab${tabIds.length === 1 ? '' : 's'} on ${activeHostname}`,
+        run: () => sendMessage({ action: 'closeTabs', tabIds }),
+      });
+      items.push({
+        id: 'forget-site',
+        kind: 'command',
+        label: 'Forget this site',
+        detail: `Purge everything recorded for ${activeHostname}`,
+        run: () => confirm(`Forget everything recorded about ${activeHostname}?`)
+          ? sendMessage({ action: 'forgetSite', hostname: activeHostname })
+          : undefined,
+      });
+    }
+    if (activeTab?.id !== undefined) {
+      items.push({
+        id: 'mute-others',
+        kind: 'command',
+        label: 'Mute all other tabs',
+        run: () => sendMessage({ action: 'muteOtherTabs', tabId: activeTab.id! }),
+      });
+    }
+    return items;
+  }, [openTabs, activeTab, onNavigate]);
+
+  const results = useMemo((): PaletteItem[] => {
+    const tabItems = openTabs.map((tab): PaletteItem => ({
+      id: `tab-${tab.id}`,
+      kind: 'tab',
+      label: tab.title || tab.url || 'Untitled Tab',
+      detail: getHostname(tab.url),
+      run: () => {
+        if (tab.id === undefined) return;
+        chrome.tabs.update(tab.id, { active: true });
+        chrome.windows.update(tab.windowId, { focused: true });
+      },
+    }));
+    // Most recently closed first, as in the history view
+    const closedItems = filterAndSortClosedTabs(closedTabs, '').map((tab): PaletteItem => ({
+      id: `closed-${tab.historyId ?? tab.id}`,
+      kind: 'closed',
+      label: tab.title || tab.url || 'Untitled Tab',
+      detail: getHostname(tab.url),
+      run: () => tab.historyId !== undefined ? sendMessage({ action: 'reopenTab', historyId: tab.historyId }) : undefined,
+    }));
+    return rankByFuzzyScore([...commands, ...tabItems, ...closedItems], query, (item) =>
+      [item.label, item.detail ?? '']
+    ).slice(0, MAX_RESULTS);
+  }, [commands, openTabs, closedTabs, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Keep the highlighted row in view while moving with the arrow keys
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const select = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    if (item.prompt) {
+      setPending(item);
+      setQuery('');
+      return;
+    }
+    finish(item.run(''));
+  };
+
+  const submitPrompt = () => {
+    if (!pending || !query.trim()) return;
+    finish(pending.run(query.trim()));
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((index) => Math.max(index - 1, 0));
+        break;
+      case 'Home':
+        e.preventDefault();
+        setActiveIndex(0);
+        break;
+      case 'End':
+        e.preventDefault();
+        setActiveIndex(Math.max(results.length - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (pending) {
+          submitPrompt();
+        } else {
+          select(results[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        if (pending) {
+          setPending(null);
+          setQuery('');
+        } else {
+          onClose();
+        }
+        break;
+    }
+  };
+
+  const optionId = (index: number) => `palette-option-${index}`;
+
+  return (
+    <div className="palette-overlay" onClick={onClose}>
+      <div className="palette" role="dialog" aria-modal="true" aria-label="Command palette" onClick={(e) => e.stopPropagation()}>
+        {pending && <div className="palette-prompt-label">{pending.label}</div>}
+        <input
+          className="palette-input"
+          autoFocus
+          type="text"
+          placeholder={pending?.prompt ?? 'Search tabs, history and commands...'}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={onKeyDown}
+          role="combobox"
+          aria-expanded={!pending}
+          aria-controls="palette-listbox"
+          aria-autocomplete="list"
+          aria-activedescendant={!pending && results.length > 0 ? optionId(activeIndex) : undefined}
+        />
+        {error && <p className="palette-error">{error}</p>}
+        {!pending && (
+          <ul id="palette-listbox" className="palette-list" role="listbox" aria-label="Results" ref={listRef}>
+            {results.length === 0 && <li className="palette-empty">No matches</li>}
+            {results.map((item, index) => (
+              <li
+                key={item.id}
+                id={optionId(index)}
+                data-index={index}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`palette-item ${index === activeIndex ? 'active' : ''}`}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => select(item)}
+              >
+                <span className={`palette-kind ${item.kind}`}>{KIND_LABELS[item.kind]}</span>
+                <span className="palette-label">{item.label}</span>
+                {item.detail && <span className="palette-detail">{item.detail}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="palette-footer">↑↓ to move • Enter to run • Esc to close</div>
+      </div>
+    </div>
+  );
+}
+
+export default CommandPalette;
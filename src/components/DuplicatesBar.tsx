@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { sendMessage } from '../shared/messages';
+import type { DuplicateGroup, DuplicateSettings } from '../shared/types';
+import './DuplicatesBar.css';
+
+interface DuplicatesBarProps {
+  groups: DuplicateGroup[];
+  onChanged: () => void;
+  onError: (message: string) => void;
+}
+
+const SETTING_LABELS: Record<keyof DuplicateSettings, string> = {
+  ignoreHash: 'Ignore #fragments',
+  ignoreTrackingParams: 'Ignore tracking parameters (utm_*, fbclid...)',
+  ignoreTrailingSlash: 'Ignore trailing slashes',
+  autoFocusExisting: 'Switch to the open tab instead of opening a duplicate',
+};
+
+function DuplicatesBar({ groups, onChanged, onError }: DuplicatesBarProps) {
+  const [settings, setSettings] = useState<DuplicateSettings | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const duplicateCount = groups.reduce((sum, group) => sum + group.tabIds.length - 1, 0);
+
+  const closeDuplicates = () => {
+    sendMessage({ action: 'closeDuplicates' })
+      .then(onChanged)
+      .catch((err: Error) => onError('Failed to close duplicates: ' + err.message));
+  };
+
+  const toggleSettings = () => {
+    if (!showSettings && !settings) {
+      sendMessage({ action: 'getDuplicateSettings' })
+        .then(({ settings }) => setSettings(settings))
+        .catch((err: Error) => onError('Failed to load duplicate settings: ' + err.message));
+    }
+    setShowSettings(!showSettings);
+  };
+
+  const updateSetting = (key: keyof DuplicateSettings, value: boolean) => {
+    if (!settings) return;
+    const next = { ...settings, [key]: value };
+    setSettings(next);
+    sendMessage({ action: 'setDuplicateSettings', settings: next })
+      .then(onChanged)
+      .catch((err: Error) => onError('Failed to save duplicate settings: ' + err.message));
+  };
+
+  return (
+    <div className={`duplicates-bar ${duplicateCount > 0 ? 'has-duplicates' : ''}`}>
+      <div className="duplicates-summary">
+        <span>
+          {duplicateCount > 0
+            ? `${duplicateCount} duplicate tab${duplicateCount === 1 ? '' : 's'} in ${groups.length} group${groups.length === 1 ? '' : 's'}`
+            : 'No duplicate tabs'}
+        </span>
+        <div className="duplicates-actions">
+          {duplicateCount > 0 && (
+            <button className="duplicates-close" onClick={closeDuplicates} title="Keep the most used copy of each page">
+              🧹 Close duplicates
+            </button>
+          )}
+          <button className="duplicates-settings-toggle" onClick={toggleSettings} title="Duplicate detection settings">
+            ⚙️
+          </button>
+        </div>
+      </div>
+      {showSettings && settings && (
+        <div className="duplicates-settings">
+          {(Object.keys(SETTING_LABELS) as (keyof DuplicateSettings)[]).map((key) => (
+            <label key={key}>
+              <input
+                type="checkbox"
+                checked={settings[key]}
+                onChange={(e) => updateSetting(key, e.target.checked)}
+              />
+              {SETTING_LABELS[key]}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DuplicatesBar;
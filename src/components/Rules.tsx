@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react';
+import { sendMessage } from '../shared/messages';
+import type { RuleAction, RuleLogEntry, TabRule } from '../shared/types';
+import { getHostname } from '../shared/url';
+import './Rules.css';
+
+interface RulesProps {
+  onBack: () => void;
+}
+
+const ACTION_LABELS: Record<RuleAction, string> = {
+  discard: 'Discard (free memory)',
+  close: 'Close',
+  archive: 'Close and keep in history',
+  keep: 'Never touch',
+};
+
+const LOG_LABELS: Record<RuleLogEntry['action'], string> = {
+  discard: 'Discarded',
+  close: 'Closed',
+  archive: 'Archived',
+};
+
+// Units the inactivity threshold can be entered in, in minutes
+const UNITS = [
+  { label: 'minutes', minutes: 1 },
+  { label: 'hours', minutes: 60 },
+  { label: 'days', minutes: 24 * 60 },
+];
+
+// The largest unit that expresses the threshold as a whole number
+const getUnit = (minutes: number) =>
+  [...UNITS].reverse().find((unit) => minutes > 0 && minutes % unit.minutes === 0) ?? UNITS[0];
+
+const createRule = (): TabRule => ({
+  id: crypto.randomUUID(),
+  name: 'New rule',
+  enabled: true,
+  domainPattern: '*',
+  inactiveMinutes: 120,
+  action: 'discard',
+  exemptPinned: true,
+  exemptAudible: true,
+});
+
+function Rules({ onBack }: RulesProps) {
+  const [rules, setRules] = useState<TabRule[]>([]);
+  const [log, setLog] = useState<RuleLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    Promise.all([sendMessage({ action: 'getRules' }), sendMessage({ action: 'getRuleLog' })])
+      .then(([{ rules }, { entries }]) => {
+        setRules(rules);
+        setLog(entries);
+      })
+      .catch((err: Error) => setError('Failed to load rules: ' + err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const loadLog = () => {
+    sendMessage({ action: 'getRuleLog' })
+      .then(({ entries }) => setLog(entries))
+      .catch((err: Error) => setError('Failed to load rule log: ' + err.message));
+  };
+
+  const editRules = (next: TabRule[]) => {
+    setRules(next);
+    setDirty(true);
+  };
+
+  const updateRule = (id: string, change: Partial<TabRule>) => {
+    editRules(rules.map((rule) => (rule.id === id ? { ...rule, ...change } : rule)));
+  };
+
+  // Rules are evaluated top to bottom, so order decides which one wins
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    editRules(next);
+  };
+
+  const saveRules = () => {
+    sendMessage({ action: 'setRules', rules })
+      .then(({ rules }) => {
+        setRules(rules);
+        setDirty(false);
+        setError('');
+      })
+      .catch((err: Error) => setError('Failed to save rules: ' + err.message));
+  };
+
+  const runRules = () => {
+    sendMessage({ action: 'runRules' })
+      .then(loadLog)
+      .catch((err: Error) => setError('Failed to run rules: ' + err.message));
+  };
+
+  const clearLog = () => {
+    sendMessage({ action: 'clearRuleLog' })
+      .then(() => setLog([]))
+      .catch((err: Error) => setError('Failed to clear rule log: ' + err.message));
+  };
+
+  return (
+    <div className="rules">
+      {/* Header */}
+      <div className="rules-header">
+        <button className="back-btn" onClick={onBack}>
+          ◀ Back to Tabs
+        </button>
+        <h1>Tab Rules</h1>
+      </div>
+
+      <p className="rules-hint">
+        Rules run every minute, top to bottom. The first rule that applies to an inactive tab wins.
+      </p>
+
+      {error && <p className="rules-error">{error}</p>}
+
+      {loading ? (
+        <div className="rules-loading">Loading rules...</div>
+      ) : (
+        <>
+          <ul className="rule-list">
+            {rules.map((rule, index) => {
+              const unit = getUnit(rule.inactiveMinutes);
+              return (
+                <li key={rule.id} className={`rule-item ${rule.enabled ? '' : 'disabled'}`}>
+                  <div className="rule-row">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      title="Enabled"
+                    />
+                    <input
+                      className="rule-input rule-name"
+                      value={rule.name}
+                      onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                    />
+                    <button className="rule-btn" onClick={() => moveRule(index, -1)} disabled={index === 0} title="Move up">
+                      ↑
+                    </button>
+                    <button className="rule-btn" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} title="Move down">
+                      ↓
+                    </button>
+                    <button
+                      className="rule-btn danger"
+                      onClick={() => editRules(rules.filter((r) => r.id !== rule.id))}
+                      title="Delete"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  <div className="rule-row">
+                    <label className="rule-label">Sites</label>
+                    <input
+                      className="rule-input"
+                      value={rule.domainPattern}
+                      placeholder="*, localhost, *.example.com"
+                      onChange={(e) => updateRule(rule.id, { domainPattern: e.target.value })}
+                    />
+                  </div>
+                  <div className="rule-row">
+                    <label className="rule-label">Action</label>
+                    <select
+                      value={rule.action}
+                      onChange={(e) => updateRule(rule.id, { action: e.target.value as RuleAction })}
+                    >
+                      {(Object.keys(ACTION_LABELS) as RuleAction[]).map((action) => (
+                        <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {rule.action !== 'keep' && (
+                    <>
+                      <div className="rule-row">
+                        <label className="rule-label">After</label>
+                        <input
+                          className="rule-input rule-number"
+                          type="number"
+                          min={0}
+                          value={rule.inactiveMinutes / unit.minutes}
+                          onChange={(e) => updateRule(rule.id, { inactiveMinutes: Math.max(0, Number(e.target.value)) * unit.minutes })}
+                        />
+                        <select
+                          value={unit.minutes}
+                          onChange={(e) => updateRule(rule.id, {
+                            inactiveMinutes: (rule.inactiveMinutes / unit.minutes) * Number(e.target.value),
+                          })}
+                        >
+                          {UNITS.map((option) => (
+                            <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                          ))}
+                        </select>
+                        <span className="rule-suffix">inactive</span>
+                      </div>
+                      <div className="rule-row rule-exemptions">
+                        <label>
+                          <input
+                            type="checkbox"
+                            checked={rule.exemptPinned}
+                            onChange={(e) => updateRule(rule.id, { exemptPinned: e.target.checked })}
+                          />
+                          Skip pinned
+                        </label>
+                        <label>
+                          <input
+                            type="checkbox"
+                            checked={rule.exemptAudible}
+                            onChange={(e) => updateRule(rule.id, { exemptAudible: e.target.checked })}
+                          />
+                          Skip tabs playing audio
+                        </label>
+                      </div>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {rules.length === 0 && (
+            <div className="rules-empty">No rules yet. Tabs are never closed automatically.</div>
+          )}
+
+          <div className="rules-actions">
+            <button className="rule-btn" onClick={() => editRules([...rules, createRule()])}>
+              + Add rule
+            </button>
+            <button className="rule-btn primary" onClick={saveRules} disabled={!dirty}>
+              💾 Save rules
+            </button>
+            <button className="rule-btn" onClick={runRules} disabled={dirty} title="Apply the saved rules now">
+              ▶ Run now
+            </button>
+          </div>
+
+          {/* Log */}
+          <div className="rule-log">
+            <div className="rule-log-header">
+              <h3>Activity</h3>
+              {log.length > 0 && (
+                <button className="rule-btn" onClick={clearLog}>Clear</button>
+              )}
+            </div>
+            {log.length === 0 ? (
+              <p className="rules-empty">No tabs have been touched by rules yet.</p>
+            ) : (
+              <ul className="rule-log-list">
+                {log.map((entry) => (
+                  <li key={entry.id} className="rule-log-item">
+                    <span className={`rule-log-action ${entry.action}`}>{LOG_LABELS[entry.action]}</span>
+                    <div className="rule-log-details">
+                      <div className="rule-log-title" title={entry.url}>{entry.title}</div>
+                      <div className="rule-log-meta">
+                        {getHostname(entry.url)} • {entry.ruleName} • {new Date(entry.at).toLocaleString()}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default Rules;
@@ -0,0 +1,158 @@
+import { useState, useEffect, useMemo, type ReactNode } from 'react';
+import { sendMessage } from '../shared/messages';
+import { parseQuery, type QueryError } from '../shared/query';
+import type { SavedSearch } from '../shared/types';
+import './SearchBox.css';
+
+interface SearchBoxProps {
+  value: string;
+  placeholder: string;
+  onChange: (value: string) => void;
+}
+
+const QUERY_HELP =
+  'Words match fuzzily; "quoted phrases" match exactly; -word excludes; a OR b.\n' +
+  'Filters: domain:github.com title: url: active>10m open<2h pinned:true\n' +
+  'closed:today|yesterday|week|month|yyyy-mm-dd closed>yyyy-mm-dd';
+
+// The query with every invalid span marked, in input order
+const highlightErrors = (text: string, errors: QueryError[]): ReactNode[] => {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  [...errors]
+    .sort((a, b) => a.start - b.start)
+    .forEach((error, index) => {
+      const start = Math.max(error.start, position);
+      if (start > position) parts.push(text.slice(position, start));
+      const end = Math.max(error.end, start);
+      parts.push(
+        <mark key={index} className="search-error-span" title={error.message}>
+          {text.slice(start, end) || ' '}
+        </mark>
+      );
+      position = end;
+    });
+  if (position < text.length) parts.push(text.slice(position));
+  return parts;
+};
+
+// Search input with query syntax checking and saved, pinnable searches
+function SearchBox({ value, placeholder, onChange }: SearchBoxProps) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [showSaved, setShowSaved] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const { errors } = useMemo(() => parseQuery(value), [value]);
+  const query = value.trim();
+  const isSaved = savedSearches.some((search) => search.query === query);
+  const pinned = savedSearches.filter((search) => search.pinned);
+
+  useEffect(() => {
+    sendMessage({ action: 'getSavedSearches' })
+      .then(({ searches }) => setSavedSearches(searches))
+      .catch((err: Error) => console.warn('Failed to get saved searches:', err.message));
+  }, []);
+
+  const update = (searches: SavedSearch[]) => {
+    sendMessage({ action: 'setSavedSearches', searches })
+      .then(({ searches: saved }) => {
+        setSavedSearches(saved);
+        setError('');
+      })
+      .catch((err: Error) => setError('Failed to save searches: ' + err.message));
+  };
+
+  const saveCurrent = () => {
+    const name = prompt('Name this search', query);
+    if (name === null) return;
+    update([...savedSearches, { id: crypto.randomUUID(), name: name.trim() || query, query, pinned: true }]);
+  };
+
+  const togglePinned = (id: string) =>
+    update(savedSearches.map((search) => (search.id === id ? { ...search, pinned: !search.pinned } : search)));
+
+  const remove = (id: string) => update(savedSearches.filter((search) => search.id !== id));
+
+  return (
+    <div className="search-box">
+      <div className="search-box-row">
+        <input
+          className={`search ${errors.length > 0 ? 'invalid' : ''}`}
+          type="text"
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          title={QUERY_HELP}
+          aria-invalid={errors.length > 0}
+          aria-describedby={errors.length > 0 ? 'search-errors' : undefined}
+        />
+        <button
+          className="search-box-btn"
+          onClick={saveCurrent}
+          disabled={!query || errors.length > 0 || isSaved}
+          title={isSaved ? 'Search already saved' : 'Save this search'}
+        >
+          ☆
+        </button>
+        <button
+          className={`search-box-btn ${showSaved ? 'active' : ''}`}
+          onClick={() => setShowSaved(!showSaved)}
+          disabled={savedSearches.length === 0}
+          title="Saved searches"
+        >
+          ▾
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <div id="search-errors" className="search-errors" role="alert">
+          <div className="search-error-text">{highlightErrors(value, errors)}</div>
+          {errors.map((err, index) => (
+            <div key={index} className="search-error-message">{err.message}</div>
+          ))}
+        </div>
+      )}
+      {error && <div className="search-error-message">{error}</div>}
+
+      {pinned.length > 0 && (
+        <div className="search-chips">
+          {pinned.map((search) => (
+            <button
+              key={search.id}
+              className={`search-chip ${search.query === query ? 'active' : ''}`}
+              onClick={() => onChange(search.query === query ? '' : search.query)}
+              title={search.query}
+            >
+              {search.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showSaved && savedSearches.length > 0 && (
+        <ul className="saved-searches">
+          {savedSearches.map((search) => (
+            <li key={search.id} className="saved-search">
+              <button className="saved-search-apply" onClick={() => onChange(search.query)} title={search.query}>
+                <span className="saved-search-name">{search.name}</span>
+                {search.name !== search.query && <span className="saved-search-query">{search.query}</span>}
+              </button>
+              <button
+                className={`search-box-btn ${search.pinned ? 'active' : ''}`}
+                onClick={() => togglePinned(search.id)}
+                title={search.pinned ? 'Unpin from toolbar' : 'Pin to toolbar'}
+              >
+                📌
+              </button>
+              <button className="search-box-btn" onClick={() => remove(search.id)} title="Delete saved search">
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SearchBox;
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { sendMessage, type MessageRequest } from '../shared/messages';
+import { toMarkdownLinks } from '../shared/exporters';
+import './SelectionBar.css';
+
+interface SelectionBarProps {
+  tabs: chrome.tabs.Tab[];
+  windows: { id: number; title: string }[];
+  onClear: () => void;
+  onChanged: () => void;
+  onError: (message: string) => void;
+}
+
+type Panel = 'group' | 'bookmark' | null;
+
+// Bulk actions on the selected tabs
+function SelectionBar({ tabs, windows, onClear, onChanged, onError }: SelectionBarProps) {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [name, setName] = useState<string>('');
+  const [copied, setCopied] = useState<string>('');
+
+  const tabIds = tabs.map((tab) => tab.id).filter((id): id is number => id !== undefined);
+  const allPinned = tabs.every((tab) => tab.pinned);
+  const allMuted = tabs.every((tab) => tab.mutedInfo?.muted);
+
+  // Run a bulk action, then clear the selection if it no longer applies
+  const run = (request: MessageRequest, failure: string, clearAfter = true) => {
+    sendMessage(request)
+      .then(() => {
+        setPanel(null);
+        setName('');
+        if (clearAfter) onClear();
+        onChanged();
+      })
+      .catch((err: Error) => onError(`${failure}: ${err.message}`));
+  };
+
+  const closeAll = () => {
+    if (!confirm(`Close ${tabIds.length} tab${tabIds.length === 1 ? '' : 's'}?`)) return;
+    run({ action: 'closeTabs', tabIds }, 'Failed to close tabs');
+  };
+
+  const moveToWindow = (value: string) => {
+    if (value === 'new') {
+      run({ action: 'moveTabsToNewWindow', tabIds }, 'Failed to move tabs to a new window');
+    } else if (value) {
+      run({ action: 'moveTabsToWindow', tabIds, windowId: Number(value) }, 'Failed to move tabs');
+    }
+  };
+
+  const submitPanel = () => {
+    const value = name.trim();
+    if (panel === 'group') {
+      run({ action: 'groupTabs', tabIds, title: value || undefined }, 'Failed to group tabs');
+    } else if (panel === 'bookmark' && value) {
+      run({ action: 'bookmarkTabs', tabIds, folder: value }, 'Failed to bookmark tabs', false);
+    }
+  };
+
+  const copyUrls = (format: 'markdown' | 'plain') => {
+    const text = format === 'markdown'
+      ? toMarkdownLinks(tabs).trimEnd()
+      : tabs.filter((tab) => tab.url).map((tab) => tab.url!).join('\n');
+    navigator.clipboard.writeText(text)
+      .then(() => {
+        setCopied(format === 'markdown' ? 'Copied as Markdown' : 'Copied URLs');
+        setTimeout(() => setCopied(''), 1500);
+      })
+      .catch((err: Error) => onError('Failed to copy URLs: ' + err.message));
+  };
+
+  return (
+    <div className="selection-bar">
+      <div className="selection-row">
+        <span className="selection-count">{tabIds.length} selected</span>
+        <button className="selection-btn" onClick={() => setPanel(panel === 'group' ? null : 'group')}>Group</button>
+        <button
+          className="selection-btn"
+          onClick={() => run({ action: 'updateTabs', tabIds, pinned: !allPinned }, 'Failed to pin tabs', false)}
+        >
+          {allPinned ? 'Unpin' : 'Pin'}
+        </button>
+        <button
+          className="selection-btn"
+          onClick={() => run({ action: 'updateTabs', tabIds, muted: !allMuted }, 'Failed to mute tabs', false)}
+        >
+          {allMuted ? 'Unmute' : 'Mute'}
+        </button>
+        <button className="selection-btn danger" onClick={closeAll}>Close</button>
+        <button className="selection-btn" onClick={onClear} title="Clear selection">✕</button>
+      </div>
+      <div className="selection-row">
+        <select className="selection-select" value="" onChange={(e) => moveToWindow(e.target.value)}>
+          <option value="">Move to window...</option>
+          {windows.map((window) => (
+            <option key={window.id} value={window.id}>{window.title}</option>
+          ))}
+          <option value="new">New window</option>
+        </select>
+        <button className="selection-btn" onClick={() => setPanel(panel === 'bookmark' ? null : 'bookmark')}>
+          Bookmark
+        </button>
+        <button className="selection-btn" onClick={() => copyUrls('markdown')} title="Copy as a Markdown list">
+          Copy MD
+        </button>
+        <button className="selection-btn" onClick={() => copyUrls('plain')} title="Copy URLs, one per line">
+          Copy URLs
+        </button>
+        {copied && <span className="selection-copied">{copied}</span>}
+      </div>
+      {panel && (
+        <form
+          className="selection-row"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitPanel();
+          }}
+        >
+          <input
+            className="selection-input"
+            autoFocus
+            type="text"
+            placeholder={panel === 'group' ? 'Group name (optional)...' : 'Bookmark folder name...'}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button type="submit" className="selection-btn primary" disabled={panel === 'bookmark' && !name.trim()}>
+            {panel === 'group' ? 'Create group' : 'Save bookmarks'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default SelectionBar;
@@ -1,4 +1,9 @@
 import { useState, useEffect } from 'react';
+import { sendMessage } from '../shared/messages';
+import { subscribeToTabRecords } from '../shared/tabStorage';
+import type { ActiveInterval, IdleInterval, TabTiming } from '../shared/types';
+import { getHostname } from '../shared/url';
+import TabTimeline from './TabTimeline';
 import './TabDetail.css';
 
 interface TabDetailProps {
@@ -6,11 +11,11 @@ interface TabDetailProps {
   onBack: () => void;
 }
 
-interface TabTimingData {
-  openedAt: number;
-  totalActiveTime: number;
-  currentActiveTime?: number;
-}
+// Idle thresholds offered in the idle section, in seconds
+const IDLE_THRESHOLDS = [60, 120, 300, 600, 900];
+
+// Most recent idle periods listed under the breakdown
+const MAX_LISTED_INTERVALS = 5;
 
 interface TabDetailData {
   id: number;
@@ -18,18 +23,37 @@ interface TabDetailData {
   url?: string;
   favIconUrl?: string;
   active: boolean;
-  timing: TabTimingData;
+  timing: TabTiming;
 }
 
 function TabDetail({ tabId, onBack }: TabDetailProps) {
   const [tabData, setTabData] = useState<TabDetailData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
+  const [idleThreshold, setIdleThreshold] = useState<number | null>(null);
 
+  // Reload whenever the worker saves this tab's records
   useEffect(() => {
     loadTabData();
+    return subscribeToTabRecords((tabIds) => {
+      if (tabIds.includes(tabId)) loadTabData();
+    });
   }, [tabId]);
 
+  useEffect(() => {
+    sendMessage({ action: 'getIdleSettings' })
+      .then(({ settings }) => setIdleThreshold(settings.thresholdSeconds))
+      .catch(() => setIdleThreshold(null));
+  }, []);
+
+  // Optimistically show the new threshold, reverting if the worker rejects it
+  const updateIdleThreshold = (thresholdSeconds: number) => {
+    const previous = idleThreshold;
+    setIdleThreshold(thresholdSeconds);
+    sendMessage({ action: 'setIdleSettings', settings: { thresholdSeconds } })
+      .catch(() => setIdleThreshold(previous));
+  };
+
   const loadTabData = () => {
     // Get tab information
     chrome.tabs.get(tabId, (tab) => {
@@ -40,29 +64,27 @@ function TabDetail({ tabId, onBack }: TabDetailProps) {
       }
 
       // Get timing data from background script
-      chrome.runtime.sendMessage({ action: 'getTimingData' }, (response: unknown) => {
-        const typedResponse = response as { timingData: Record<number, { openedAt: number; totalActiveTime: number; currentActiveTime?: number }> };
-        if (chrome.runtime.lastError) {
+      sendMessage({ action: 'getTimingData' })
+        .then(({ timingData }) => {
+          if (timingData[tabId]) {
+            setTabData({
+              id: tabId,
+              title: tab.title,
+              url: tab.url,
+              favIconUrl: tab.favIconUrl,
+              active: tab.active,
+              timing: timingData[tabId]
+            });
+          } else {
+            setError('No timing data found for this tab');
+          }
+        })
+        .catch(() => {
           setError('Failed to load timing data');
+        })
+        .finally(() => {
           setLoading(false);
-          return;
-        }
-
-        if (typedResponse && typedResponse.timingData && typedResponse.timingData[tabId]) {
-          const timingData = typedResponse.timingData[tabId];
-          setTabData({
-            id: tabId,
-            title: tab.title,
-            url: tab.url,
-            favIconUrl: tab.favIconUrl,
-            active: tab.active,
-            timing: timingData
-          });
-        } else {
-          setError('No timing data found for this tab');
-        }
-        setLoading(false);
-      });
+        });
     });
   };
 
@@ -106,6 +128,52 @@ function TabDetail({ tabId, onBack }: TabDetailProps) {
     return formatDuration(totalActive);
   };
 
+  const getIdleMs = (): number => {
+    if (!tabData) return 0;
+    return (tabData.timing.totalIdleTime ?? 0) + (tabData.timing.currentIdleTime ?? 0);
+  };
+
+  // Time spent playing audio, whether or not the tab was in front
+  const getAudibleMs = (): number => {
+    if (!tabData) return 0;
+    return (tabData.timing.totalAudibleTime ?? 0) + (tabData.timing.currentAudibleTime ?? 0);
+  };
+
+  const getIdlePercentage = (): number => {
+    if (!tabData) return 0;
+    const totalTime = Date.now() - tabData.timing.openedAt;
+    return totalTime > 0 ? Math.round((getIdleMs() / totalTime) * 100) : 0;
+  };
+
+  // Newest first, including the idle period still in progress
+  const getRecentIdleIntervals = (): IdleInterval[] => {
+    if (!tabData) return [];
+    const intervals = [...(tabData.timing.idleIntervals ?? [])];
+    if (tabData.timing.currentIdleTime) {
+      const now = Date.now();
+      intervals.push({ start: now - tabData.timing.currentIdleTime, end: now });
+    }
+    return intervals.reverse().slice(0, MAX_LISTED_INTERVALS);
+  };
+
+  // Recorded focus sessions, with the one in progress continued up to now
+  const getActiveIntervals = (): ActiveInterval[] => {
+    if (!tabData) return [];
+    const intervals = [...(tabData.timing.activeIntervals ?? [])];
+    if (tabData.active && tabData.timing.currentActiveTime) {
+      const now = Date.now();
+      const start = now - tabData.timing.currentActiveTime;
+      const last = intervals[intervals.length - 1];
+      // The worker measured the current session a moment ago, so allow a small gap
+      if (last && start - last.end < 1000) {
+        intervals[intervals.length - 1] = { start: last.start, end: now };
+      } else {
+        intervals.push({ start, end: now });
+      }
+    }
+    return intervals;
+  };
+
   const getUsagePercentage = (): number => {
     if (!tabData) return 0;
     const totalTime = Date.now() - tabData.timing.openedAt;
@@ -116,16 +184,6 @@ function TabDetail({ tabId, onBack }: TabDetailProps) {
     return totalTime > 0 ? Math.round((totalActive / totalTime) * 100) : 0;
   };
 
-  const getHostname = (url?: string): string => {
-    try {
-      if (!url) return '';
-      const hostname = new URL(url).hostname;
-      return hostname.replace(/^www\./, '');
-    } catch {
-      return '';
-    }
-  };
-
   if (loading) {
     return (
       <div className="tab-detail">
@@ -227,14 +285,62 @@ function TabDetail({ tabId, onBack }: TabDetailProps) {
               className="progress-fill" 
               style={{ width: `${getUsagePercentage()}%` }}
             ></div>
+            <div
+              className="progress-fill idle"
+              style={{ width: `${getIdlePercentage()}%` }}
+            ></div>
           </div>
           <div className="progress-labels">
             <span>Active: {getActiveTime()}</span>
+            <span>Idle: {formatDuration(getIdleMs())}</span>
+            {getAudibleMs() > 0 && <span>Audible: {formatDuration(getAudibleMs())}</span>}
             <span>Total: {getTotalOpenTime()}</span>
           </div>
         </div>
       </div>
 
+      {/* Activity Timeline */}
+      <div className="activity-stats">
+        <h3>Activity</h3>
+        <TabTimeline
+          openedAt={tabData.timing.openedAt}
+          endedAt={Date.now()}
+          activeIntervals={getActiveIntervals()}
+          pages={tabData.timing.pages ?? []}
+        />
+      </div>
+
+      {/* Idle Periods */}
+      <div className="idle-stats">
+        <div className="idle-header">
+          <h3>Idle Periods</h3>
+          {idleThreshold !== null && (
+            <label className="idle-threshold">
+              Idle after
+              <select value={idleThreshold} onChange={(e) => updateIdleThreshold(Number(e.target.value))}>
+                {[...new Set([...IDLE_THRESHOLDS, idleThreshold])].sort((a, b) => a - b).map((seconds) => (
+                  <option key={seconds} value={seconds}>{formatDuration(seconds * 1000)}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+        {getRecentIdleIntervals().length === 0 ? (
+          <p className="idle-empty">No idle time recorded while this tab was active.</p>
+        ) : (
+          <ul className="idle-list">
+            {getRecentIdleIntervals().map((interval) => (
+              <li key={interval.start} className="idle-item">
+                <span>
+                  {new Date(interval.start).toLocaleTimeString()} – {new Date(interval.end).toLocaleTimeString()}
+                </span>
+                <span className="idle-duration">{formatDuration(interval.end - interval.start)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
       {/* Refresh Button */}
       <div className="action-bar">
         <button className="refresh-btn" onClick={loadTabData}>
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { sendMessage } from '../shared/messages';
+import type { TabGroupColor, TabGroupSummary } from '../shared/types';
+import './TabGroupHeader.css';
+
+interface TabGroupHeaderProps {
+  group: TabGroupSummary;
+  onChanged: () => void;
+  onError: (message: string) => void;
+}
+
+// Chrome's own tab group palette
+const GROUP_COLORS: Record<TabGroupColor, string> = {
+  grey: '#5f6368',
+  blue: '#1a73e8',
+  red: '#d93025',
+  yellow: '#f9ab00',
+  green: '#188038',
+  pink: '#d01884',
+  purple: '#a142f4',
+  cyan: '#007b83',
+  orange: '#fa903e',
+};
+
+const formatDuration = (milliseconds: number): string => {
+  const minutes = Math.floor(milliseconds / 60000);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${Math.floor(milliseconds / 1000)}s`;
+};
+
+function TabGroupHeader({ group, onChanged, onError }: TabGroupHeaderProps) {
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState(group.title);
+
+  const update = (change: { title?: string; color?: TabGroupColor; collapsed?: boolean }) => {
+    sendMessage({ action: 'updateTabGroup', groupId: group.id, ...change })
+      .then(onChanged)
+      .catch((err: Error) => onError('Failed to update group: ' + err.message));
+  };
+
+  const rename = () => {
+    setEditing(false);
+    if (title !== group.title) {
+      update({ title });
+    }
+  };
+
+  const ungroup = () => {
+    sendMessage({ action: 'ungroupTabs', tabIds: group.tabIds })
+      .then(onChanged)
+      .catch((err: Error) => onError('Failed to ungroup tabs: ' + err.message));
+  };
+
+  return (
+    <div className="group-header" style={{ borderLeftColor: GROUP_COLORS[group.color] }}>
+      <button
+        className="group-toggle"
+        onClick={() => update({ collapsed: !group.collapsed })}
+        title={group.collapsed ? 'Expand group' : 'Collapse group'}
+      >
+        {group.collapsed ? '▸' : '▾'}
+      </button>
+      {editing ? (
+        <input
+          className="group-title-input"
+          autoFocus
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={rename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') rename();
+            if (e.key === 'Escape') {
+              setTitle(group.title);
+              setEditing(false);
+            }
+          }}
+        />
+      ) : (
+        <span
+          className="group-title"
+          style={{ background: GROUP_COLORS[group.color] }}
+          title="Double-click to rename"
+          onDoubleClick={() => {
+            setTitle(group.title);
+            setEditing(true);
+          }}
+        >
+          {group.title || 'Unnamed group'}
+        </span>
+      )}
+      <span className="group-meta">
+        {group.tabIds.length} tab{group.tabIds.length === 1 ? '' : 's'} • Used {formatDuration(group.activeTime)}
+      </span>
+      <select
+        className="group-color"
+        value={group.color}
+        onChange={(e) => update({ color: e.target.value as TabGroupColor })}
+        title="Group color"
+      >
+        {(Object.keys(GROUP_COLORS) as TabGroupColor[]).map((color) => (
+          <option key={color} value={color}>{color}</option>
+        ))}
+      </select>
+      <button className="group-ungroup" onClick={ungroup} title="Ungroup tabs">
+        ✕
+      </button>
+    </div>
+  );
+}
+
+export default TabGroupHeader;
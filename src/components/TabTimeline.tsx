@@ -0,0 +1,85 @@
+import { getPageTimes } from '../shared/timeline';
+import type { ActiveInterval, PageVisit } from '../shared/types';
+import { getHostname } from '../shared/url';
+import './TabTimeline.css';
+
+interface TabTimelineProps {
+  openedAt: number;
+  // Now for open tabs, closedAt for closed ones
+  endedAt: number;
+  activeIntervals: ActiveInterval[];
+  pages: PageVisit[];
+}
+
+const formatDuration = (milliseconds: number): string => {
+  const seconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// When a tab was in focus between opening and now (or closing), and the pages
+// it showed with the focused time spent on each
+function TabTimeline({ openedAt, endedAt, activeIntervals, pages }: TabTimelineProps) {
+  const span = Math.max(endedAt - openedAt, 1);
+  const position = (timestamp: number) => `${((Math.max(timestamp, openedAt) - openedAt) / span) * 100}%`;
+  const pageTimes = getPageTimes(pages, activeIntervals, endedAt).reverse();
+
+  return (
+    <div className="timeline">
+      <div className="timeline-header">
+        <span>Focus timeline</span>
+        <span>{activeIntervals.length} session{activeIntervals.length === 1 ? '' : 's'}</span>
+      </div>
+      <div className="timeline-track">
+        {pages.slice(1).map((page) => (
+          <div key={`${page.at}:${page.url}`} className="timeline-navigation" style={{ left: position(page.at) }} title={page.title} />
+        ))}
+        {activeIntervals.map((interval) => (
+          <div
+            key={interval.start}
+            className="timeline-session"
+            style={{
+              left: position(interval.start),
+              width: `max(2px, ${((interval.end - Math.max(interval.start, openedAt)) / span) * 100}%)`,
+            }}
+            title={`${formatTime(interval.start)} – ${formatTime(interval.end)} (${formatDuration(interval.end - interval.start)})`}
+          />
+        ))}
+      </div>
+      <div className="timeline-labels">
+        <span>{new Date(openedAt).toLocaleString()}</span>
+        <span>{new Date(endedAt).toLocaleString()}</span>
+      </div>
+
+      <div className="timeline-header">
+        <span>Pages visited</span>
+        <span>{pages.length}</span>
+      </div>
+      {pageTimes.length === 0 ? (
+        <p className="timeline-empty">No navigations recorded in this tab.</p>
+      ) : (
+        <ul className="timeline-pages">
+          {pageTimes.map((page) => (
+            <li key={`${page.at}:${page.url}`} className="timeline-page">
+              <div className="timeline-page-info">
+                <span className="timeline-page-title" title={page.url}>{page.title || page.url}</span>
+                <span className="timeline-page-meta">
+                  {getHostname(page.url)} • {formatTime(page.at)} – {formatTime(page.until)}
+                </span>
+              </div>
+              <span className="timeline-page-time">{formatDuration(page.activeTime)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default TabTimeline;
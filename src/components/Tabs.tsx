@@ -1,5 +1,16 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef, type KeyboardEvent } from 'react';
 import { DragDropContext, Droppable, Draggable, type DropResult } from 'react-beautiful-dnd';
+import { sendMessage } from '../shared/messages';
+import { DEFAULT_TRACKING_SETTINGS } from '../shared/settings';
+import { filterTabs, sortOpenTabs, type OpenTabSort } from '../shared/tabFilters';
+import { subscribeToTabRecords } from '../shared/tabStorage';
+import type { DuplicateGroup, TabGroupSummary, TabTiming, TrackingSettings } from '../shared/types';
+import { getHostname } from '../shared/url';
+import DuplicatesBar from './DuplicatesBar';
+import SearchBox from './SearchBox';
+import SelectionBar from './SelectionBar';
+import TabGroupHeader from './TabGroupHeader';
+import UndoToast from './UndoToast';
 import './Tabs.css';
 
 // Use the same Tab interface as in chrome.d.ts
@@ -9,121 +20,275 @@ type TabWithId = Tab & { id: number };
 // Extended tab type with timing data
 interface TabWithTiming extends TabWithId {
   openedAt: number;
+  // When the worker last reported the time of the tab it is tracking
   activeStartTime?: number;
   totalActiveTime: number;
+  totalAudibleTime?: number;
+  lastActivatedAt?: number;
 }
 
+// The latest timing reported by the background worker
+interface TimingReport {
+  timingData: Record<number, TabTiming>;
+  activeTabId: number | null;
+  loadedAt: number;
+}
+
+// A tab with the timing the worker reported for it, if any. Only a tab whose
+// time the worker is counting right now, which it marks by reporting the
+// uncommitted part, keeps counting up; the active tab of an idle or locked
+// system does not.
+const applyTiming = (tab: TabWithTiming, report: TimingReport | null): TabWithTiming => {
+  const savedData = report?.timingData[tab.id];
+  if (!report || !savedData) return tab;
+  const counting = tab.id === report.activeTabId && savedData.currentActiveTime !== undefined;
+  return {
+    ...tab,
+    openedAt: savedData.openedAt,
+    totalActiveTime: savedData.totalActiveTime + (savedData.currentActiveTime || 0),
+    totalAudibleTime: (savedData.totalAudibleTime ?? 0) + (savedData.currentAudibleTime ?? 0),
+    lastActivatedAt: savedData.lastActivatedAt,
+    activeStartTime: counting ? report.loadedAt : undefined,
+  };
+};
+
+// A run of adjacent tabs rendered as one drop target: a native tab group,
+// or consecutive tabs that belong to no group
+type TabBlock =
+  | { id: string; kind: 'group'; group: TabGroupSummary; tabs: TabWithTiming[] }
+  | { id: string; kind: 'ungrouped'; tabs: TabWithTiming[] };
+
+// Split tabs in tab strip order into group and ungrouped runs, each sorted
+// on its own so sorting never takes a tab out of its group
+const splitIntoBlocks = (
+  tabs: TabWithTiming[],
+  groupsById: Map<number, TabGroupSummary>,
+  sortBy: OpenTabSort
+): TabBlock[] => {
+  const result: TabBlock[] = [];
+  tabs.forEach((tab) => {
+    const group = groupsById.get(tab.groupId);
+    const last = result[result.length - 1];
+    if (group && last?.kind === 'group' && last.group.id === group.id) {
+      last.tabs.push(tab);
+    } else if (group) {
+      result.push({ id: `group-${group.id}`, kind: 'group', group, tabs: [tab] });
+    } else if (last?.kind === 'ungrouped' && last.tabs[0].windowId === tab.windowId) {
+      last.tabs.push(tab);
+    } else {
+      result.push({ id: `ungrouped-${tab.id}`, kind: 'ungrouped', tabs: [tab] });
+    }
+  });
+  return result.map((block) => ({ ...block, tabs: sortOpenTabs(block.tabs, sortBy) }));
+};
+
 interface TabsProps {
   onTabClick: (tabId: number) => void;
   onViewClosedTabs: () => void;
+  onViewAnalytics: () => void;
+  onViewWorkspaces: () => void;
+  onViewRules: () => void;
+  onViewBackup: () => void;
+  onViewBudgets: () => void;
 }
 
-function Tabs({ onTabClick, onViewClosedTabs }: TabsProps) {
+function Tabs({ onTabClick, onViewClosedTabs, onViewAnalytics, onViewWorkspaces, onViewRules, onViewBackup, onViewBudgets }: TabsProps) {
   const [openTabs, setOpenTabs] = useState<TabWithTiming[]>([]);
   const [error, setError] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState<string>('');
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([]);
+  const [tabGroups, setTabGroups] = useState<TabGroupSummary[]>([]);
+  const [selectedTabIds, setSelectedTabIds] = useState<Set<number>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null);
+  const [currentWindowId, setCurrentWindowId] = useState<number | null>(null);
+  const [audibleOnly, setAudibleOnly] = useState(false);
+  const [sortBy, setSortBy] = useState<OpenTabSort>('strip');
+  const [focusedTabId, setFocusedTabId] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [trackingSettings, setTrackingSettings] = useState<TrackingSettings>(DEFAULT_TRACKING_SETTINGS);
+  const refreshSeconds = trackingSettings.popupRefreshSeconds;
+  // Kept so tabs listed after the timing arrived still get their times
+  const timingReport = useRef<TimingReport | null>(null);
+  // Row elements by tab id, to move keyboard focus between rows
+  const rowRefs = useRef(new Map<number, HTMLLIElement>());
+
+  // Ask the background worker which open tabs share a URL
+  const loadDuplicates = () => {
+    sendMessage({ action: 'getDuplicates' })
+      .then(({ groups }) => setDuplicateGroups(groups))
+      .catch((err: Error) => console.warn('Failed to get duplicates:', err.message));
+  };
 
-  // Fetch all open tabs on mount
+  // Native tab groups with their timing totals from the background worker
+  const loadTabGroups = () => {
+    sendMessage({ action: 'getTabGroups' })
+      .then(({ groups }) => setTabGroups(groups))
+      .catch((err: Error) => console.warn('Failed to get tab groups:', err.message));
+  };
+
+  // Fetch all open tabs, on mount and whenever tabs come and go
   const loadTabs = () => {
+    loadDuplicates();
+    loadTabGroups();
     chrome.tabs.query({}, (fetchedTabs) => {
       if (chrome.runtime.lastError) {
         setError('Failed to fetch tabs: ' + chrome.runtime.lastError.message);
       } else {
-        const now = Date.now();
-        const tabsWithTiming = fetchedTabs
+        const loadedAt = Date.now();
+        const tabIds = new Set(fetchedTabs.map((tab) => tab.id));
+        setOpenTabs((prev) => fetchedTabs
           .filter((tab) => tab.id !== undefined)
           .map((tab) => {
-            const existingTab = openTabs.find(t => t.id === tab.id);
-            return {
+            const existingTab = prev.find(t => t.id === tab.id);
+            return applyTiming({
               ...tab,
               id: tab.id!,
-              openedAt: existingTab?.openedAt || now,
-              activeStartTime: tab.active ? now : existingTab?.activeStartTime,
-              totalActiveTime: existingTab?.totalActiveTime || 0
-            } as TabWithTiming;
+              openedAt: existingTab?.openedAt || loadedAt,
+              activeStartTime: existingTab?.activeStartTime,
+              totalActiveTime: existingTab?.totalActiveTime || 0,
+              totalAudibleTime: existingTab?.totalAudibleTime,
+              lastActivatedAt: existingTab?.lastActivatedAt
+            }, timingReport.current);
           })
-          .sort((a, b) => a.index - b.index);
-        
-        setOpenTabs(tabsWithTiming);
+          .sort((a, b) => a.windowId - b.windowId || a.index - b.index));
+        setSelectedTabIds((prev) => new Set([...prev].filter((id) => tabIds.has(id))));
       }
     });
   };
 
-  // Load timing data from background script
+  // Load timing data from the background script again whenever it saves the
+  // records of open tabs; in between, a clock tick advances the tracked tab
   useEffect(() => {
+    sendMessage({ action: 'getTrackingSettings' })
+      .then(({ settings }) => setTrackingSettings(settings))
+      .catch((err: Error) => console.warn('Failed to get tracking settings:', err.message));
+
     const loadTimingData = () => {
-      chrome.runtime.sendMessage({ action: 'getTimingData' }, (response: unknown) => {
-        const typedResponse = response as { timingData: Record<number, { openedAt: number; totalActiveTime: number; currentActiveTime?: number }> };
-        if (chrome.runtime.lastError) {
-          console.warn('Failed to get timing data:', chrome.runtime.lastError.message);
-          return;
-        }
-        
-        if (typedResponse && typedResponse.timingData) {
-          setOpenTabs(prev => prev.map(tab => {
-            const savedData = typedResponse.timingData[tab.id];
-            if (savedData) {
-              return {
-                ...tab,
-                openedAt: savedData.openedAt,
-                totalActiveTime: savedData.totalActiveTime + (savedData.currentActiveTime || 0),
-                activeStartTime: tab.active ? Date.now() : undefined
-              };
-            }
-            return tab;
-          }));
-        }
-      });
+      sendMessage({ action: 'getTimingData' })
+        .then(({ timingData, activeTabId }) => {
+          const report = { timingData, activeTabId, loadedAt: Date.now() };
+          timingReport.current = report;
+          setOpenTabs(prev => prev.map(tab => applyTiming(tab, report)));
+        })
+        .catch((err: Error) => {
+          console.warn('Failed to get timing data:', err.message);
+        });
     };
 
-    // Load timing data when component mounts
-    loadTimingData();
-    
-    // Set up interval to refresh timing data
-    const interval = setInterval(loadTimingData, 1000);
-    
-    return () => clearInterval(interval);
+    const refresh = () => {
+      loadTimingData();
+      loadTabGroups();
+    };
+
+    refresh();
+    return subscribeToTabRecords(refresh);
   }, []);
 
+  useEffect(() => {
+    const tick = setInterval(() => setNow(Date.now()), refreshSeconds * 1000);
+    return () => clearInterval(tick);
+  }, [refreshSeconds]);
+
+  // List the tabs again as they are opened, closed or swapped for a prerendered
+  // page while the popup is open
   useEffect(() => {
     loadTabs();
+    chrome.windows.getCurrent({}, (window) => setCurrentWindowId(window.id ?? null));
+    const onChanged = () => loadTabs();
+    chrome.tabs.onCreated.addListener(onChanged);
+    chrome.tabs.onRemoved.addListener(onChanged);
+    chrome.tabs.onReplaced.addListener(onChanged);
+    return () => {
+      chrome.tabs.onCreated.removeListener(onChanged);
+      chrome.tabs.onRemoved.removeListener(onChanged);
+      chrome.tabs.onReplaced.removeListener(onChanged);
+    };
   }, []);
 
-  // Close a tab
+  // Keep the pinned, muted and audible indicators current while the popup is open
+  useEffect(() => {
+    const onUpdated = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+      if (changeInfo.pinned === undefined && changeInfo.audible === undefined && !changeInfo.mutedInfo) return;
+      setOpenTabs((prev) => prev.map((tab) => (tab.id === tabId ? {
+        ...tab,
+        pinned: changeInfo.pinned ?? tab.pinned,
+        audible: changeInfo.audible ?? tab.audible,
+        mutedInfo: changeInfo.mutedInfo ?? tab.mutedInfo,
+      } : tab)));
+    };
+    chrome.tabs.onUpdated.addListener(onUpdated);
+    return () => chrome.tabs.onUpdated.removeListener(onUpdated);
+  }, []);
+
+  // Close a tab through the background worker so the close can be undone
   const closeTab = (tabId: number) => {
-    chrome.tabs.remove(tabId, () => {
-      if (chrome.runtime.lastError) {
-        setError('Failed to close tab: ' + chrome.runtime.lastError.message);
-      } else {
-        setOpenTabs(openTabs.filter((tab) => tab.id !== tabId));
-      }
-    });
+    sendMessage({ action: 'closeTabs', tabIds: [tabId] })
+      .then(() => setOpenTabs((tabs) => tabs.filter((tab) => tab.id !== tabId)))
+      .catch((err: Error) => setError('Failed to close tab: ' + err.message));
   };
 
-  // Move a tab to a new index (for buttons)
+  // Move a tab one place left or right within its window, joining or leaving
+  // a group the way Chrome does when a tab is moved across a group edge
   const moveTab = (tabId: number, direction: 'left' | 'right') => {
     const tab = openTabs.find((t) => t.id === tabId);
     if (!tab) return;
+    const windowTabs = openTabs.filter((t) => t.windowId === tab.windowId);
+    const position = windowTabs.indexOf(tab);
+    const neighbour = windowTabs[direction === 'left' ? position - 1 : position + 1];
+    if (!neighbour) return;
 
-    let newIndex = direction === 'left' ? tab.index - 1 : tab.index + 1;
-    if (newIndex < 0) newIndex = 0;
-    if (newIndex >= openTabs.length) newIndex = openTabs.length - 1;
+    sendMessage({
+      action: 'moveTab',
+      tabId,
+      targetTabId: neighbour.id,
+      placement: direction === 'left' ? 'before' : 'after',
+      groupId: groupsById.has(neighbour.groupId) ? neighbour.groupId : null,
+    })
+      .then(loadTabs)
+      .catch((err: Error) => setError('Failed to move tab: ' + err.message));
+  };
 
-    chrome.tabs.move(tabId, { index: newIndex }, (movedTab) => {
-      if (chrome.runtime.lastError) {
-        setError('Failed to move tab: ' + chrome.runtime.lastError.message);
-      } else {
-        // Update local state
-        if (!movedTab || movedTab.id === undefined) {
-          loadTabs();
-          return;
-        }
-        const updatedTabs = [...openTabs];
-        updatedTabs.splice(tab.index, 1); // Remove tab from old position
-        updatedTabs.splice(newIndex, 0, movedTab as TabWithTiming); // Insert at new position
-        setOpenTabs(updatedTabs);
-      }
-    });
+  const moveToNewWindow = (tabIds: number[]) => {
+    sendMessage({ action: 'moveTabsToNewWindow', tabIds })
+      .then(() => {
+        setSelectedTabIds(new Set());
+        loadTabs();
+      })
+      .catch((err: Error) => setError('Failed to move tabs to a new window: ' + err.message));
+  };
+
+  const togglePinned = (tab: TabWithTiming) => {
+    sendMessage({ action: 'updateTabs', tabIds: [tab.id], pinned: !tab.pinned })
+      .then(loadTabs)
+      .catch((err: Error) => setError('Failed to pin tab: ' + err.message));
+  };
+
+  const toggleMuted = (tab: TabWithTiming) => {
+    sendMessage({ action: 'updateTabs', tabIds: [tab.id], muted: !tab.mutedInfo?.muted })
+      .then(loadTabs)
+      .catch((err: Error) => setError('Failed to mute tab: ' + err.message));
+  };
+
+  // Keep the active tab of this window playing and silence the rest
+  const muteOtherTabs = () => {
+    const keepTab = openTabs.find((tab) => tab.active && tab.windowId === currentWindowId);
+    if (!keepTab) return;
+    sendMessage({ action: 'muteOtherTabs', tabId: keepTab.id })
+      .then(loadTabs)
+      .catch((err: Error) => setError('Failed to mute tabs: ' + err.message));
+  };
+
+  const mergeWindows = () => {
+    sendMessage({ action: 'mergeWindows' })
+      .then(loadTabs)
+      .catch((err: Error) => setError('Failed to merge windows: ' + err.message));
+  };
+
+  const togglePaused = () => {
+    const settings = { ...trackingSettings, trackingPaused: !trackingSettings.trackingPaused };
+    sendMessage({ action: 'setTrackingSettings', settings })
+      .then(({ settings: saved }) => setTrackingSettings(saved))
+      .catch((err: Error) => setError('Failed to update tracking: ' + err.message));
   };
 
   // Activate a tab when clicking the row
@@ -138,16 +303,6 @@ function Tabs({ onTabClick, onViewClosedTabs }: TabsProps) {
     });
   };
 
-  const getHostname = (url?: string) => {
-    try {
-      if (!url) return '';
-      const hostname = new URL(url).hostname;
-      return hostname.replace(/^www\./, '');
-    } catch {
-      return '';
-    }
-  };
-
   // Format time duration elegantly
   const formatDuration = (milliseconds: number): string => {
     if (milliseconds < 1000) return '0s';
@@ -169,50 +324,302 @@ function Tabs({ onTabClick, onViewClosedTabs }: TabsProps) {
 
   // Get time since tab was opened
   const getTimeSinceOpened = (openedAt: number): string => {
-    const elapsed = Date.now() - openedAt;
+    const elapsed = now - openedAt;
     return formatDuration(elapsed);
   };
 
-  // Get active time for tab
+  // Get active time for tab, counting on from the last report for the
+  // tracked tab
   const getActiveTime = (tab: TabWithTiming): string => {
-    return formatDuration(tab.totalActiveTime);
+    const running = tab.activeStartTime !== undefined ? Math.max(0, now - tab.activeStartTime) : 0;
+    return formatDuration(tab.totalActiveTime + running);
   };
 
+  // Number of open copies for every tab that has duplicates
+  const duplicateCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    duplicateGroups.forEach(({ tabIds }) => tabIds.forEach((tabId) => counts.set(tabId, tabIds.length)));
+    return counts;
+  }, [duplicateGroups]);
+
+  // Matches stay in tab strip order so windows and groups render intact
   const filteredTabs: TabWithTiming[] = useMemo(() => {
-    if (!searchQuery.trim()) return openTabs;
-    const q = searchQuery.toLowerCase();
-    return openTabs.filter((t) => (t.title || '').toLowerCase().includes(q) || (t.url || '').toLowerCase().includes(q));
-  }, [openTabs, searchQuery]);
+    const matches = new Set(filterTabs(openTabs, searchQuery));
+    return openTabs.filter((tab) => matches.has(tab) && (!audibleOnly || tab.audible));
+  }, [openTabs, searchQuery, audibleOnly]);
 
-  // Handle drag-and-drop reordering
-  const onDragEnd = (result: DropResult) => {
-    if (!result.destination) return;
+  const audibleCount = openTabs.filter((tab) => tab.audible).length;
+  const canMuteOthers = openTabs.some(
+    (tab) => !tab.mutedInfo?.muted && !(tab.active && tab.windowId === currentWindowId)
+  );
 
-    const sourceIndex = result.source.index;
-    const destinationIndex = result.destination.index;
+  const groupsById = useMemo(() => new Map(tabGroups.map((group) => [group.id, group])), [tabGroups]);
 
-    if (sourceIndex === destinationIndex) return;
+  // Ids of every open tab per window, in tab strip order
+  const windowTabIds = useMemo(() => {
+    const windows = new Map<number, number[]>();
+    openTabs.forEach((tab) => windows.set(tab.windowId, [...(windows.get(tab.windowId) ?? []), tab.id]));
+    return windows;
+  }, [openTabs]);
 
-    const tab = openTabs[sourceIndex];
-    if (!tab.id) return;
+  // Split the visible tabs into group and ungrouped runs
+  const blocks: TabBlock[] = useMemo(
+    () => splitIntoBlocks(filteredTabs, groupsById, sortBy),
+    [filteredTabs, groupsById, sortBy]
+  );
 
-    chrome.tabs.move(tab.id, { index: destinationIndex }, (movedTab) => {
-      if (chrome.runtime.lastError) {
-        setError('Failed to reorder tab: ' + chrome.runtime.lastError.message);
-      } else {
-        // Update local state
-        if (!movedTab || movedTab.id === undefined) {
-          loadTabs();
-          return;
-        }
-        const updatedTabs = [...openTabs];
-        updatedTabs.splice(sourceIndex, 1); // Remove from old position
-        updatedTabs.splice(destinationIndex, 0, movedTab as TabWithTiming); // Insert at new position
-        setOpenTabs(updatedTabs);
-      }
+  // The blocks of each window, with the window the popup belongs to first
+  const windowSections = useMemo(() => {
+    const sections = new Map<number, TabBlock[]>();
+    blocks.forEach((block) => {
+      const windowId = block.tabs[0].windowId;
+      sections.set(windowId, [...(sections.get(windowId) ?? []), block]);
     });
+    return [...sections.entries()]
+      .map(([windowId, windowBlocks]) => ({ windowId, blocks: windowBlocks }))
+      .sort((a, b) => Number(b.windowId === currentWindowId) - Number(a.windowId === currentWindowId));
+  }, [blocks, currentWindowId]);
+
+  // Move a window's tabs in the browser into the order they are listed in,
+  // ignoring the search so every tab of the window is placed
+  const applyOrder = (windowId: number) => {
+    const tabIds = splitIntoBlocks(openTabs.filter((tab) => tab.windowId === windowId), groupsById, sortBy)
+      .flatMap((block) => block.tabs.map((tab) => tab.id));
+    sendMessage({ action: 'reorderTabs', windowId, tabIds })
+      .then(loadTabs)
+      .catch((err: Error) => setError('Failed to reorder tabs: ' + err.message));
+  };
+
+  // Chrome titles a window after its active tab
+  const getWindowTitle = (windowId: number): string => {
+    const activeTab = openTabs.find((tab) => tab.windowId === windowId && tab.active);
+    return activeTab?.title || 'Untitled window';
+  };
+
+  // Visible tabs in the order they are listed, across all window sections
+  const displayedTabs = useMemo(
+    () => windowSections.flatMap((section) => section.blocks.flatMap((block) => block.tabs)),
+    [windowSections]
+  );
+
+  // Toggle one tab, or with shift set every tab between it and the last
+  // toggled one to the same state
+  const toggleSelected = (tabId: number, extendRange: boolean) => {
+    const next = new Set(selectedTabIds);
+    const selected = !next.has(tabId);
+    const anchorIndex = displayedTabs.findIndex((tab) => tab.id === selectionAnchor);
+    const index = displayedTabs.findIndex((tab) => tab.id === tabId);
+    const range = extendRange && anchorIndex !== -1
+      ? displayedTabs.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1).map((tab) => tab.id)
+      : [tabId];
+    range.forEach((id) => (selected ? next.add(id) : next.delete(id)));
+    setSelectedTabIds(next);
+    setSelectionAnchor(tabId);
+  };
+
+  // Rows on screen in list order; tabs of collapsed groups are not rendered
+  const renderedTabs = useMemo(
+    () => windowSections.flatMap((section) => section.blocks
+      .filter((block) => !(block.kind === 'group' && block.group.collapsed))
+      .flatMap((block) => block.tabs)),
+    [windowSections]
+  );
+
+  // Only one row is in the tab order at a time; the arrow keys move between
+  // rows, Enter switches to the tab and Space selects it
+  const tabStopId = renderedTabs.some((tab) => tab.id === focusedTabId) ? focusedTabId : renderedTabs[0]?.id;
+
+  const focusRow = (index: number) => {
+    const tab = renderedTabs[Math.max(0, Math.min(index, renderedTabs.length - 1))];
+    if (tab) rowRefs.current.get(tab.id)?.focus();
   };
 
+  const onRowKeyDown = (e: KeyboardEvent<HTMLLIElement>, tab: TabWithTiming) => {
+    // Keys pressed on the row's own buttons and checkbox are theirs
+    if (e.target !== e.currentTarget) return;
+    const index = renderedTabs.findIndex((t) => t.id === tab.id);
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        focusRow(index + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        focusRow(index - 1);
+        break;
+      case 'Home':
+        e.preventDefault();
+        focusRow(0);
+        break;
+      case 'End':
+        e.preventDefault();
+        focusRow(renderedTabs.length - 1);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        activateTab(tab.id);
+        break;
+      case ' ':
+        e.preventDefault();
+        toggleSelected(tab.id, e.shiftKey);
+        break;
+    }
+  };
+
+  const selectAllMatching = () => {
+    setSelectedTabIds(new Set([...selectedTabIds, ...filteredTabs.map((tab) => tab.id)]));
+  };
+
+  // Handle drag-and-drop: place the tab next to its new neighbour and make it
+  // join the group it was dropped into, or leave its group
+  const onDragEnd = (result: DropResult) => {
+    const { source, destination, draggableId } = result;
+    if (!destination) return;
+    if (source.droppableId === destination.droppableId && source.index === destination.index) return;
+
+    const tabId = Number(draggableId);
+    const block = blocks.find((b) => b.id === destination.droppableId);
+    if (!block) return;
+    const neighbours = block.tabs.filter((t) => t.id !== tabId);
+    if (neighbours.length === 0) return;
+
+    const before = neighbours[destination.index];
+    const target = before ?? neighbours[neighbours.length - 1];
+    sendMessage({
+      action: 'moveTab',
+      tabId,
+      targetTabId: target.id,
+      placement: before ? 'before' : 'after',
+      groupId: block.kind === 'group' ? block.group.id : null,
+    })
+      .then(loadTabs)
+      .catch((err: Error) => setError('Failed to move tab: ' + err.message));
+  };
+
+  const renderTab = (tab: TabWithTiming, index: number) => (
+    <Draggable key={tab.id} draggableId={tab.id.toString()} index={index} isDragDisabled={sortBy !== 'strip'}>
+      {(provided) => (
+        <li
+          ref={(element) => {
+            provided.innerRef(element);
+            if (element) {
+              rowRefs.current.set(tab.id, element);
+            } else {
+              rowRefs.current.delete(tab.id);
+            }
+          }}
+          {...provided.draggableProps}
+          role="option"
+          aria-selected={selectedTabIds.has(tab.id)}
+          aria-current={tab.active ? 'true' : undefined}
+          tabIndex={tab.id === tabStopId ? 0 : -1}
+          className={`tab-item ${tab.active ? 'active' : ''}`}
+          onClick={() => activateTab(tab.id!)}
+          onKeyDown={(e) => onRowKeyDown(e, tab)}
+          onFocus={(e) => {
+            if (e.target === e.currentTarget) setFocusedTabId(tab.id);
+          }}
+        >
+          <div className="tab-leading" onClick={(e) => e.stopPropagation()}>
+            <input
+              type="checkbox"
+              className="tab-select"
+              checked={selectedTabIds.has(tab.id)}
+              readOnly
+              onClick={(e) => toggleSelected(tab.id, e.shiftKey)}
+              title="Select tab (shift-click to select a range)"
+            />
+            {tab.favIconUrl ? (
+              <img className="favicon" src={tab.favIconUrl} alt="" onError={(e) => { (e.currentTarget as HTMLImageElement).style.display = 'none'; }} />
+            ) : (
+              <div className="favicon fallback">{(getHostname(tab.url) || 'T').charAt(0).toUpperCase()}</div>
+            )}
+            <div className="tab-states">
+              <button
+                className={`state-btn ${tab.pinned ? 'on' : ''}`}
+                onClick={() => togglePinned(tab)}
+                title={tab.pinned ? 'Unpin tab' : 'Pin tab'}
+              >
+                📌
+              </button>
+              <button
+                className={`state-btn ${tab.mutedInfo?.muted ? 'on' : ''}`}
+                onClick={() => toggleMuted(tab)}
+                title={tab.mutedInfo?.muted ? 'Unmute tab' : 'Mute tab'}
+              >
+                {tab.mutedInfo?.muted ? '🔇' : '🔈'}
+              </button>
+            </div>
+          </div>
+          {/* Dragging starts from the title area, which leaves Space on the
+              row free to select it instead of lifting it */}
+          <div className="tab-content" {...provided.dragHandleProps} role={undefined} tabIndex={-1} aria-describedby={undefined}>
+            <div className="tab-title">
+              {duplicateCounts.has(tab.id) && (
+                <span className="duplicate-badge" title={`Open ${duplicateCounts.get(tab.id)} times`}>
+                  ×{duplicateCounts.get(tab.id)}
+                </span>
+              )}
+              {tab.audible && (
+                <span className={`audible-badge ${tab.mutedInfo?.muted ? 'muted' : ''}`} title={tab.mutedInfo?.muted ? 'Playing audio (muted)' : 'Playing audio'}>
+                  {tab.mutedInfo?.muted ? '🔇' : '🔊'}
+                </span>
+              )}
+              {tab.title || tab.url || 'Untitled Tab'}
+            </div>
+            <div className="tab-url">{getHostname(tab.url)}</div>
+            <div className="tab-timing">
+              <span className="timing-opened">Opened {getTimeSinceOpened(tab.openedAt)} ago</span>
+              <span className="timing-active">• Used {getActiveTime(tab)}</span>
+              {(tab.totalAudibleTime ?? 0) >= 1000 && (
+                <span className="timing-audible">• Audible {formatDuration(tab.totalAudibleTime!)}</span>
+              )}
+            </div>
+          </div>
+          <div className="tab-actions" onClick={(e) => e.stopPropagation()}>
+            <button
+              className="icon-btn details-btn"
+              onClick={() => onTabClick(tab.id!)}
+              title="View details"
+            >
+              📊
+            </button>
+            <button
+              className="icon-btn"
+              onClick={() => moveTab(tab.id!, 'left')}
+              disabled={windowTabIds.get(tab.windowId)?.[0] === tab.id}
+              title="Move left"
+            >
+              ◀
+            </button>
+            <button
+              className="icon-btn"
+              onClick={() => moveTab(tab.id!, 'right')}
+              disabled={windowTabIds.get(tab.windowId)?.slice(-1)[0] === tab.id}
+              title="Move right"
+            >
+              ▶
+            </button>
+            <button
+              className="icon-btn"
+              onClick={() => moveToNewWindow([tab.id])}
+              title="Move to new window"
+            >
+              ⧉
+            </button>
+            <button
+              className="icon-btn close-btn"
+              onClick={() => closeTab(tab.id!)}
+              title="Close tab"
+            >
+              ✕
+            </button>
+          </div>
+        </li>
+      )}
+    </Draggable>
+  );
+
   return (
     <div className="app">
       <div className="header">
@@ -220,15 +627,16 @@ function Tabs({ onTabClick, onViewClosedTabs }: TabsProps) {
         <div className="subtitle">Developed by DevBlends</div>
       </div>
       {error && <p className="error">{error}</p>}
+      {trackingSettings.trackingPaused && (
+        <p className="paused-notice">Tracking is paused. Nothing new is recorded until you resume.</p>
+      )}
 
       <div className="toolbar">
         <div className="search-section">
-          <input
-            className="search"
-            type="text"
-            placeholder="Search tabs..."
+          <SearchBox
+            placeholder="Search tabs, e.g. domain:github.com active>10m (Ctrl+K for commands)"
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={setSearchQuery}
           />
         </div>
         <div className="actions-section">
@@ -240,81 +648,169 @@ function Tabs({ onTabClick, onViewClosedTabs }: TabsProps) {
           >
             📚 History
           </button>
+          <button
+            className="view-closed-btn"
+            title="Time by Domain"
+            onClick={onViewAnalytics}
+          >
+            📈 Insights
+          </button>
+          <button
+            className="view-closed-btn"
+            title="Saved Workspaces"
+            onClick={onViewWorkspaces}
+          >
+            🗂️ Workspaces
+          </button>
+          <button
+            className="view-closed-btn"
+            title="Rules for Inactive Tabs"
+            onClick={onViewRules}
+          >
+            🧹 Rules
+          </button>
+          <button
+            className="view-closed-btn"
+            title="Back Up or Restore Data"
+            onClick={onViewBackup}
+          >
+            💾 Backup
+          </button>
+          <button
+            className="view-closed-btn"
+            title="Daily Time Budgets"
+            onClick={onViewBudgets}
+          >
+            ⏳ Budgets
+          </button>
+          <button
+            className="view-closed-btn"
+            title="Tracking and History Settings"
+            onClick={() => chrome.runtime.openOptionsPage()}
+          >
+            ⚙️ Options
+          </button>
+          <button
+            className={`view-closed-btn ${trackingSettings.trackingPaused ? 'paused' : ''}`}
+            title={trackingSettings.trackingPaused ? 'Resume recording tab time' : 'Stop recording tab time for now'}
+            onClick={togglePaused}
+          >
+            {trackingSettings.trackingPaused ? '▶ Resume' : '⏸ Pause'}
+          </button>
         </div>
       </div>
 
-      <div className="result-meta">{filteredTabs.length} tab{filteredTabs.length === 1 ? '' : 's'}</div>
+      <DuplicatesBar groups={duplicateGroups} onChanged={loadTabs} onError={setError} />
+
+      <div className="result-meta">
+        <span>
+          {filteredTabs.length} tab{filteredTabs.length === 1 ? '' : 's'}
+          <select
+            className="tab-sort-select"
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as OpenTabSort)}
+            title="Sort the list; groups keep their place"
+          >
+            <option value="strip">Tab strip order</option>
+            <option value="domain">By domain</option>
+            <option value="opened">By opened time</option>
+            <option value="active">By active time</option>
+            <option value="lastUsed">By last used</option>
+          </select>
+        </span>
+        <div className="result-meta-actions">
+          {(audibleCount > 0 || audibleOnly) && (
+            <button
+              className={`audio-filter-btn ${audibleOnly ? 'on' : ''}`}
+              onClick={() => setAudibleOnly(!audibleOnly)}
+              title="Only show tabs playing audio"
+            >
+              🔊 Playing audio ({audibleCount})
+            </button>
+          )}
+          {canMuteOthers && (
+            <button className="select-all-btn" onClick={muteOtherTabs} title="Mute every tab except the active one">
+              Mute other tabs
+            </button>
+          )}
+          {filteredTabs.length > 0 && (
+            <button className="select-all-btn" onClick={selectAllMatching}>
+              {searchQuery.trim() || audibleOnly ? 'Select all matching' : 'Select all'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {selectedTabIds.size > 0 && (
+        <SelectionBar
+          tabs={openTabs.filter((tab) => selectedTabIds.has(tab.id))}
+          windows={windowSections.map((section) => ({ id: section.windowId, title: getWindowTitle(section.windowId) }))}
+          onClear={() => setSelectedTabIds(new Set())}
+          onChanged={loadTabs}
+          onError={setError}
+        />
+      )}
+
+      {windowSections.length > 1 && (
+        <div className="window-summary">
+          <span>{windowSections.length} windows</span>
+          <button className="window-merge-btn" onClick={mergeWindows} title="Move every tab into this window">
+            ⇲ Merge all windows
+          </button>
+        </div>
+      )}
 
       <DragDropContext onDragEnd={onDragEnd}>
-        <Droppable droppableId="tabs">
-          {(provided) => (
-            <ul {...provided.droppableProps} ref={provided.innerRef} className="tab-list">
-              {filteredTabs.map((tab: TabWithTiming, index) => (
-                <Draggable key={tab.id} draggableId={tab.id.toString()} index={index}>
+        {windowSections.map((section) => (
+          <section key={section.windowId} className="window-section">
+            <div className="window-header">
+              <span className="window-title" title={getWindowTitle(section.windowId)}>
+                {getWindowTitle(section.windowId)}
+              </span>
+              {section.windowId === currentWindowId && <span className="window-badge">This window</span>}
+              {sortBy !== 'strip' && (
+                <button
+                  className="window-merge-btn"
+                  onClick={() => applyOrder(section.windowId)}
+                  title="Reorder this window's tabs in the browser to match the list"
+                >
+                  Apply to browser
+                </button>
+              )}
+              <span className="window-meta">
+                {windowTabIds.get(section.windowId)?.length ?? 0} tabs
+              </span>
+            </div>
+            {section.blocks.map((block) => (
+              <div key={block.id} className={block.kind === 'group' ? 'tab-group' : undefined}>
+                {block.kind === 'group' && (
+                  <TabGroupHeader group={block.group} onChanged={loadTabs} onError={setError} />
+                )}
+                <Droppable
+                  droppableId={block.id}
+                  isDropDisabled={block.kind === 'group' && block.group.collapsed}
+                >
                   {(provided) => (
-                                         <li
-                       ref={provided.innerRef}
-                       {...provided.draggableProps}
-                       {...provided.dragHandleProps}
-                       className={`tab-item ${tab.active ? 'active' : ''}`}
-                       onClick={() => activateTab(tab.id!)}
-                     >
-                      <div className="tab-leading">
-                        {tab.favIconUrl ? (
-                          <img className="favicon" src={tab.favIconUrl} alt="" onError={(e) => { (e.currentTarget as HTMLImageElement).style.display = 'none'; }} />
-                        ) : (
-                          <div className="favicon fallback">{(getHostname(tab.url) || 'T').charAt(0).toUpperCase()}</div>
-                        )}
-                      </div>
-                      <div className="tab-content">
-                        <div className="tab-title">{tab.title || tab.url || 'Untitled Tab'}</div>
-                        <div className="tab-url">{getHostname(tab.url)}</div>
-                        <div className="tab-timing">
-                          <span className="timing-opened">Opened {getTimeSinceOpened(tab.openedAt)} ago</span>
-                          <span className="timing-active">• Used {getActiveTime(tab)}</span>
-                        </div>
-                      </div>
-                                             <div className="tab-actions" onClick={(e) => e.stopPropagation()}>
-                         <button
-                           className="icon-btn details-btn"
-                           onClick={() => onTabClick(tab.id!)}
-                           title="View details"
-                         >
-                           📊
-                         </button>
-                         <button
-                           className="icon-btn"
-                           onClick={() => moveTab(tab.id!, 'left')}
-                           disabled={index === 0}
-                           title="Move left"
-                         >
-                           ◀
-                         </button>
-                         <button
-                           className="icon-btn"
-                           onClick={() => moveTab(tab.id!, 'right')}
-                           disabled={index === filteredTabs.length - 1}
-                           title="Move right"
-                         >
-                           ▶
-                         </button>
-                         <button
-                           className="icon-btn close-btn"
-                           onClick={() => closeTab(tab.id!)}
-                           title="Close tab"
-                         >
-                           ✕
-                         </button>
-                       </div>
-                    </li>
+                    <ul
+                      {...provided.droppableProps}
+                      ref={provided.innerRef}
+                      className="tab-list"
+                      role="listbox"
+                      aria-multiselectable="true"
+                      aria-label={block.kind === 'group' ? block.group.title || 'Unnamed group' : getWindowTitle(section.windowId)}
+                    >
+                      {!(block.kind === 'group' && block.group.collapsed) &&
+                        block.tabs.map((tab, index) => renderTab(tab, index))}
+                      {provided.placeholder}
+                    </ul>
                   )}
-                </Draggable>
-              ))}
-              {provided.placeholder}
-            </ul>
-          )}
-        </Droppable>
+                </Droppable>
+              </div>
+            ))}
+          </section>
+        ))}
       </DragDropContext>
+      <UndoToast onUndone={loadTabs} onError={setError} />
     </div>
   );
 }
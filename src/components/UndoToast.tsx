@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { sendMessage } from '../shared/messages';
+import type { UndoEntry } from '../shared/types';
+import { subscribeToUndoLog } from '../shared/undoLog';
+import './UndoToast.css';
+
+interface UndoToastProps {
+  onUndone: () => void;
+  onError: (message: string) => void;
+}
+
+const TOAST_DURATION = 8000;
+
+// Offers to undo the latest tab operation logged while the popup is open
+function UndoToast({ onUndone, onError }: UndoToastProps) {
+  const [entry, setEntry] = useState<UndoEntry | null>(null);
+
+  useEffect(() => {
+    const openedAt = Date.now();
+    return subscribeToUndoLog(() => {
+      sendMessage({ action: 'getUndoLog' })
+        .then(({ entries }) => {
+          const latest = entries[entries.length - 1];
+          setEntry(latest && latest.at >= openedAt ? latest : null);
+        })
+        .catch((err: Error) => console.warn('Failed to load undo log:', err.message));
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!entry) return;
+    const timer = setTimeout(() => setEntry(null), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [entry]);
+
+  const undo = () => {
+    setEntry(null);
+    sendMessage({ action: 'undo', count: 1 })
+      .then(onUndone)
+      .catch((err: Error) => onError('Failed to undo: ' + err.message));
+  };
+
+  if (!entry) return null;
+
+  return (
+    <div className="undo-toast" role="status">
+      <span className="undo-toast-label">{entry.label}</span>
+      <button className="undo-toast-btn" onClick={undo} title="Undo (Alt+Shift+Z)">Undo</button>
+      <button className="undo-toast-dismiss" onClick={() => setEntry(null)} title="Dismiss">✕</button>
+    </div>
+  );
+}
+
+export default UndoToast;
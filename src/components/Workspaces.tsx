@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import { sendMessage } from '../shared/messages';
+import type { RestoreMode, Workspace, WorkspaceScope } from '../shared/types';
+import './Workspaces.css';
+
+interface WorkspacesProps {
+  onBack: () => void;
+}
+
+function Workspaces({ onBack }: WorkspacesProps) {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [name, setName] = useState<string>('');
+  const [scope, setScope] = useState<WorkspaceScope>('current');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState<string>('');
+
+  useEffect(() => {
+    loadWorkspaces();
+  }, []);
+
+  const loadWorkspaces = () => {
+    sendMessage({ action: 'listWorkspaces' })
+      .then(({ workspaces }) => setWorkspaces(workspaces))
+      .catch((err: Error) => setError('Failed to load workspaces: ' + err.message))
+      .finally(() => setLoading(false));
+  };
+
+  // Run a workspace action and reload the list when it succeeds
+  const run = (action: Promise<unknown>, failure: string) => {
+    action
+      .then(() => {
+        setError('');
+        loadWorkspaces();
+      })
+      .catch((err: Error) => setError(`${failure}: ${err.message}`));
+  };
+
+  const saveWorkspace = () => {
+    if (!name.trim()) return;
+    run(sendMessage({ action: 'saveWorkspace', name, scope }), 'Failed to save workspace');
+    setName('');
+  };
+
+  const renameWorkspace = (id: string) => {
+    if (editingName.trim()) {
+      run(sendMessage({ action: 'renameWorkspace', id, name: editingName }), 'Failed to rename workspace');
+    }
+    setEditingId(null);
+  };
+
+  const updateWorkspace = (workspace: Workspace) => {
+    if (!confirm(`Replace the tabs saved in "${workspace.name}" with the ${scope === 'all' ? 'tabs of all windows' : 'current window'}?`)) return;
+    run(sendMessage({ action: 'updateWorkspace', id: workspace.id, scope }), 'Failed to update workspace');
+  };
+
+  const deleteWorkspace = (workspace: Workspace) => {
+    if (!confirm(`Delete workspace "${workspace.name}"?`)) return;
+    run(sendMessage({ action: 'deleteWorkspace', id: workspace.id }), 'Failed to delete workspace');
+  };
+
+  const restoreWorkspace = (workspace: Workspace, mode: RestoreMode) => {
+    if (mode === 'replace' && !confirm(`Close the tabs of the current window and open "${workspace.name}"?`)) return;
+    run(sendMessage({ action: 'restoreWorkspace', id: workspace.id, mode }), 'Failed to restore workspace');
+  };
+
+  const countTabs = (workspace: Workspace): number =>
+    workspace.windows.reduce((sum, window) => sum + window.tabs.length, 0);
+
+  return (
+    <div className="workspaces">
+      {/* Header */}
+      <div className="workspaces-header">
+        <button className="back-btn" onClick={onBack}>
+          ◀ Back to Tabs
+        </button>
+        <h1>Workspaces</h1>
+      </div>
+
+      {/* Save current session */}
+      <form
+        className="workspace-save"
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveWorkspace();
+        }}
+      >
+        <input
+          className="workspace-name-input"
+          type="text"
+          placeholder="Workspace name..."
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <select value={scope} onChange={(e) => setScope(e.target.value as WorkspaceScope)}>
+          <option value="current">Current window</option>
+          <option value="all">All windows</option>
+        </select>
+        <button type="submit" className="workspace-save-btn" disabled={!name.trim()}>
+          💾 Save
+        </button>
+      </form>
+
+      {error && <p className="workspaces-error">{error}</p>}
+
+      {loading ? (
+        <div className="workspaces-loading">Loading workspaces...</div>
+      ) : workspaces.length === 0 ? (
+        <div className="workspaces-empty">
+          <div className="empty-icon">🗂️</div>
+          <h3>No workspaces yet</h3>
+          <p>Save your current tabs to switch back to them later.</p>
+        </div>
+      ) : (
+        <ul className="workspace-list">
+          {workspaces.map((workspace) => (
+            <li key={workspace.id} className="workspace-item">
+              <div className="workspace-info">
+                {editingId === workspace.id ? (
+                  <input
+                    className="workspace-name-input"
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={() => renameWorkspace(workspace.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') renameWorkspace(workspace.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                  />
+                ) : (
+                  <div
+                    className="workspace-name"
+                    title="Double-click to rename"
+                    onDoubleClick={() => {
+                      setEditingId(workspace.id);
+                      setEditingName(workspace.name);
+                    }}
+                  >
+                    {workspace.name}
+                  </div>
+                )}
+                <div className="workspace-meta">
+                  {countTabs(workspace)} tabs • {workspace.windows.length} window{workspace.windows.length === 1 ? '' : 's'} • Saved {new Date(workspace.updatedAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="workspace-actions">
+                <button className="workspace-btn primary" onClick={() => restoreWorkspace(workspace, 'newWindow')} title="Open in a new window">
+                  ↗ Open
+                </button>
+                <button className="workspace-btn" onClick={() => restoreWorkspace(workspace, 'replace')} title="Replace the current window's tabs">
+                  ⇄ Replace
+                </button>
+                <button className="workspace-btn" onClick={() => updateWorkspace(workspace)} title="Save the current tabs into this workspace">
+                  ⟳ Update
+                </button>
+                <button
+                  className="workspace-btn"
+                  onClick={() => {
+                    setEditingId(workspace.id);
+                    setEditingName(workspace.name);
+                  }}
+                  title="Rename"
+                >
+                  ✎
+                </button>
+                <button className="workspace-btn danger" onClick={() => deleteWorkspace(workspace)} title="Delete">
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default Workspaces;
@@ -0,0 +1,231 @@
+import { useState, useEffect } from 'react';
+import { sendMessage } from '../shared/messages';
+import { TRACKING_SETTINGS_SCHEMA, validateTrackingSettings, type SettingsSection } from '../shared/settings';
+import type { IdleSettings, RetentionPolicy, TrackingSettings } from '../shared/types';
+import './Options.css';
+
+// Everything the page edits, saved together
+interface Draft {
+  tracking: TrackingSettings;
+  retention: RetentionPolicy;
+  idle: IdleSettings;
+}
+
+const SETTINGS_KEYS = Object.keys(TRACKING_SETTINGS_SCHEMA) as (keyof TrackingSettings)[];
+
+// Problems with the parts of the draft not covered by the settings schema
+const validateDraft = ({ tracking, retention, idle }: Draft): string[] => [
+  ...validateTrackingSettings(tracking),
+  ...(Number.isInteger(retention.maxEntries) && retention.maxEntries > 0 ? [] : ['Keep at most must be a whole number above 0']),
+  ...(retention.maxAgeDays > 0 ? [] : ['Forget closed tabs after must be above 0 days']),
+  ...(idle.thresholdSeconds >= 15 ? [] : ['Idle after must be at least 15 seconds']),
+];
+
+function Options() {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [status, setStatus] = useState<string>('');
+
+  useEffect(() => {
+    Promise.all([
+      sendMessage({ action: 'getTrackingSettings' }),
+      sendMessage({ action: 'getRetentionPolicy' }),
+      sendMessage({ action: 'getIdleSettings' }),
+    ])
+      .then(([{ settings: tracking }, { policy: retention }, { settings: idle }]) => setDraft({ tracking, retention, idle }))
+      .catch((err: Error) => setError('Failed to load settings: ' + err.message));
+  }, []);
+
+  const edit = (change: Partial<Draft>) => {
+    setDraft((current) => current && { ...current, ...change });
+    setDirty(true);
+    setStatus('');
+  };
+
+  const setTracking = <K extends keyof TrackingSettings>(key: K, value: TrackingSettings[K]) => {
+    if (draft) edit({ tracking: { ...draft.tracking, [key]: value } });
+  };
+
+  const problems = draft ? validateDraft(draft) : [];
+
+  // One schema field with the input that suits its kind
+  const renderField = (key: keyof TrackingSettings, tracking: TrackingSettings) => {
+    const field = TRACKING_SETTINGS_SCHEMA[key];
+    const value = tracking[key];
+    let control;
+    switch (field.kind) {
+      case 'boolean':
+        control = (
+          <input
+            id={key}
+            type="checkbox"
+            checked={value as boolean}
+            onChange={(e) => setTracking(key, e.target.checked as TrackingSettings[typeof key])}
+          />
+        );
+        break;
+      case 'text':
+        control = (
+          <input
+            id={key}
+            className="options-text"
+            type="text"
+            placeholder={field.placeholder}
+            maxLength={field.maxLength}
+            value={value as string}
+            onChange={(e) => setTracking(key, e.target.value as TrackingSettings[typeof key])}
+          />
+        );
+        break;
+      case 'choice':
+        control = (
+          <select
+            id={key}
+            className="options-select"
+            value={value as string}
+            onChange={(e) => setTracking(key, e.target.value as TrackingSettings[typeof key])}
+          >
+            {field.choices.map((choice) => (
+              <option key={choice.value} value={choice.value}>{choice.label}</option>
+            ))}
+          </select>
+        );
+        break;
+      default:
+        control = (
+          <>
+            <input
+              id={key}
+              className="options-number"
+              type="number"
+              min={field.min}
+              max={field.max}
+              value={value as number}
+              onChange={(e) => setTracking(key, Number(e.target.value) as TrackingSettings[typeof key])}
+            />
+            <span className="options-unit">{field.unit}</span>
+          </>
+        );
+    }
+    return (
+      <div key={key} className="options-field">
+        <label className="options-label" htmlFor={key}>{field.label}</label>
+        <div className="options-control">{control}</div>
+        <p className="options-description">{field.description}</p>
+      </div>
+    );
+  };
+
+  const renderSection = (section: SettingsSection, tracking: TrackingSettings) =>
+    SETTINGS_KEYS.filter((key) => TRACKING_SETTINGS_SCHEMA[key].section === section).map((key) =>
+      renderField(key, tracking)
+    );
+
+  const save = () => {
+    if (!draft || problems.length > 0) return;
+    Promise.all([
+      sendMessage({ action: 'setTrackingSettings', settings: draft.tracking }),
+      sendMessage({ action: 'setRetentionPolicy', policy: draft.retention }),
+      sendMessage({ action: 'setIdleSettings', settings: draft.idle }),
+    ])
+      .then(() => {
+        setDirty(false);
+        setError('');
+        setStatus('Settings saved');
+      })
+      .catch((err: Error) => setError('Failed to save settings: ' + err.message));
+  };
+
+  return (
+    <div className="options">
+      <h1>Tab Manager Options</h1>
+
+      {error && <p className="options-error">{error}</p>}
+
+      {!draft ? (
+        !error && <div className="options-loading">Loading settings...</div>
+      ) : (
+        <>
+          <section className="options-section">
+            <h2>Tracking</h2>
+            {renderSection('tracking', draft.tracking)}
+          </section>
+
+          <section className="options-section">
+            <h2>Privacy</h2>
+            {renderSection('privacy', draft.tracking)}
+          </section>
+
+          <section className="options-section">
+            <h2>Idle detection</h2>
+            <div className="options-field">
+              <label className="options-label" htmlFor="idle-threshold">Idle after</label>
+              <div className="options-control">
+                <input
+                  id="idle-threshold"
+                  className="options-number"
+                  type="number"
+                  min={15}
+                  value={draft.idle.thresholdSeconds}
+                  onChange={(e) => edit({ idle: { thresholdSeconds: Number(e.target.value) } })}
+                />
+                <span className="options-unit">seconds</span>
+              </div>
+              <p className="options-description">
+                Time without keyboard or mouse input after which active time stops counting.
+              </p>
+            </div>
+          </section>
+
+          <section className="options-section">
+            <h2>Closed tab history</h2>
+            <div className="options-field">
+              <label className="options-label" htmlFor="max-entries">Keep at most</label>
+              <div className="options-control">
+                <input
+                  id="max-entries"
+                  className="options-number"
+                  type="number"
+                  min={1}
+                  value={draft.retention.maxEntries}
+                  onChange={(e) => edit({ retention: { ...draft.retention, maxEntries: Number(e.target.value) } })}
+                />
+                <span className="options-unit">closed tabs</span>
+              </div>
+            </div>
+            <div className="options-field">
+              <label className="options-label" htmlFor="max-age">Forget closed tabs after</label>
+              <div className="options-control">
+                <input
+                  id="max-age"
+                  className="options-number"
+                  type="number"
+                  min={1}
+                  value={draft.retention.maxAgeDays}
+                  onChange={(e) => edit({ retention: { ...draft.retention, maxAgeDays: Number(e.target.value) } })}
+                />
+                <span className="options-unit">days</span>
+              </div>
+            </div>
+          </section>
+
+          {problems.length > 0 && (
+            <ul className="options-problems">
+              {problems.map((problem) => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+
+          <div className="options-actions">
+            <button className="options-btn primary" onClick={save} disabled={!dirty || problems.length > 0}>
+              Save settings
+            </button>
+            {status && <span className="options-status">{status}</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default Options;
@@ -0,0 +1,30 @@
+// Versioned JSON backup format shared by the popup and the background worker
+import type { BackupFile } from './types';
+
+export const BACKUP_FORMAT: BackupFile['format'] = 'tab-manager-backup';
+
+// Bump when the shape of BackupFile changes, and teach readBackupFile to
+// upgrade older files
+export const BACKUP_VERSION = 1;
+
+// Parse a backup file's text, rejecting anything that is not a backup this
+// version understands. The full shape is checked again when it is imported.
+export const readBackupFile = (text: string): BackupFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null || (data as Partial<BackupFile>).format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a Tab Manager backup');
+  }
+  const { version } = data as Partial<BackupFile>;
+  if (typeof version !== 'number' || version < 1) {
+    throw new Error('The backup has no valid version');
+  }
+  if (version > BACKUP_VERSION) {
+    throw new Error(`The backup was made by a newer version of the extension (format ${version})`);
+  }
+  return data as BackupFile;
+};
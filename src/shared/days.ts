@@ -0,0 +1,19 @@
+// Day boundaries shared by insights, budgets, search and the history view. A
+// tracking day begins at the configured hour rather than at midnight.
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start of the day containing the timestamp
+export const getDayStart = (timestamp: number, dayStartHour = 0): number => {
+  const start = new Date(timestamp);
+  start.setHours(dayStartHour, 0, 0, 0);
+  if (start.getTime() > timestamp) {
+    start.setDate(start.getDate() - 1);
+  }
+  return start.getTime();
+};
+
+// Start of the day a yyyy-mm-dd date names
+export const getDateStart = (value: string, dayStartHour = 0): number => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day, dayStartHour).getTime();
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { toBookmarksHtml, toCsv, toMarkdownLinks } from './exporters';
+
+describe('toCsv', () => {
+  it('leaves plain fields bare and ends every row with CRLF', () => {
+    expect(toCsv([['Title', 'URL'], ['Example', 'https://example.com/']]))
+      .toBe('Title,URL\r\nExample,https://example.com/\r\n');
+  });
+
+  it('quotes fields with commas, quotes and line breaks and doubles embedded quotes', () => {
+    expect(toCsv([['a, b', 'say "hi"', 'line\nbreak', 'carriage\rreturn', 'both\r\n']]))
+      .toBe('"a, b","say ""hi""","line\nbreak","carriage\rreturn","both\r\n"\r\n');
+  });
+
+  it('keeps empty fields and a lone quote', () => {
+    expect(toCsv([['', '"', 'x']])).toBe(',"""",x\r\n');
+  });
+});
+
+describe('toBookmarksHtml', () => {
+  it('escapes markup in titles, URLs and the folder name', () => {
+    const html = toBookmarksHtml(
+      [{ title: '<b>Tom & "Jerry"</b>', url: 'https://example.com/?a=1&b="2"', addedAt: 1_700_000_000_500 }],
+      'Tabs <today>'
+    );
+    expect(html).toContain(
+      '<DT><A HREF="https://example.com/?a=1&amp;b=&quot;2&quot;" ADD_DATE="1700000000">&lt;b&gt;Tom &amp; &quot;Jerry&quot;&lt;/b&gt;</A>'
+    );
+    expect(html).toContain('<DT><H3>Tabs &lt;today&gt;</H3>');
+  });
+
+  it('falls back to the URL as title and skips links without one', () => {
+    const html = toBookmarksHtml([{ url: 'https://example.com/' }, { title: 'No address' }], 'Tabs');
+    expect(html).toContain('<DT><A HREF="https://example.com/">https://example.com/</A>');
+    expect(html).not.toContain('No address');
+  });
+});
+
+describe('toMarkdownLinks', () => {
+  it('escapes brackets and backslashes in titles', () => {
+    expect(toMarkdownLinks([{ title: 'Arrays [1] \\ [2]', url: 'https://example.com/' }]))
+      .toBe('- [Arrays \\[1\\] \\\\ \\[2\\]](https://example.com/)\n');
+  });
+
+  it('encodes spaces and parentheses that would end the URL', () => {
+    expect(toMarkdownLinks([{ title: 'Wiki', url: 'https://en.wikipedia.org/wiki/Go_(game) page' }]))
+      .toBe('- [Wiki](https://en.wikipedia.org/wiki/Go_%28game%29%20page)\n');
+  });
+
+  it('uses the URL as title and skips links without one', () => {
+    expect(toMarkdownLinks([{ url: 'https://a.com/' }, { title: 'None' }, { title: 'B', url: 'https://b.com/' }]))
+      .toBe('- [https://a.com/](https://a.com/)\n- [B](https://b.com/)\n');
+  });
+});
@@ -0,0 +1,67 @@
+// File formats the popup can export tab lists and backups in
+
+export interface ExportLink {
+  title?: string;
+  url?: string;
+  addedAt?: number;
+}
+
+// RFC 4180: CRLF line breaks, and fields containing a comma, quote or line
+// break are quoted with embedded quotes doubled
+export const toCsv = (rows: string[][]): string =>
+  rows
+    .map((row) => row.map((field) => (/[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field)).join(','))
+    .join('\r\n') + '\r\n';
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Netscape bookmark file, as read by every browser's bookmark import
+export const toBookmarksHtml = (links: ExportLink[], folder: string): string => {
+  const items = links
+    .filter((link) => link.url)
+    .map((link) => {
+      const addDate = link.addedAt !== undefined ? ` ADD_DATE="${Math.floor(link.addedAt / 1000)}"` : '';
+      return `        <DT><A HREF="${escapeHtml(link.url!)}"${addDate}>${escapeHtml(link.title || link.url!)}</A>`;
+    });
+  return [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file. -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+    `    <DT><H3>${escapeHtml(folder)}</H3>`,
+    '    <DL><p>',
+    ...items,
+    '    </DL><p>',
+    '</DL><p>',
+    '',
+  ].join('\n');
+};
+
+// Characters that would end the link text or URL early
+const escapeMarkdown = (text: string): string => text.replace(/([\\[\]])/g, '\\$1');
+
+const encodeMarkdownUrl = (url: string): string =>
+  url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+
+export const toMarkdownLinks = (links: ExportLink[]): string =>
+  links
+    .filter((link) => link.url)
+    .map((link) => `- [${escapeMarkdown(link.title || link.url!)}](${encodeMarkdownUrl(link.url!)})`)
+    .join('\n') + '\n';
+
+// Save text as a file through a temporary download link
+export const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,769 @@
+// Typed message protocol between the popup and the background worker.
+// Every action is declared once here; add new actions to MessageRequest,
+// MessageResponseMap and the validators table below.
+import { BACKUP_FORMAT } from './backup';
+import { validateTrackingSettings } from './settings';
+import type {
+  AnalyticsRange,
+  BackupFile,
+  BackupSettings,
+  BudgetStatus,
+  ClosedTabData,
+  DomainBudget,
+  DomainStats,
+  DuplicateGroup,
+  DuplicateSettings,
+  IdleSettings,
+  ImportMode,
+  ImportSummary,
+  RestoreMode,
+  RetentionPolicy,
+  RuleLogEntry,
+  SavedSearch,
+  TabGroupColor,
+  TabGroupSummary,
+  TabInfo,
+  TabRule,
+  TabTiming,
+  TabState,
+  TrackingSettings,
+  UndoEntry,
+  UndoKind,
+  Workspace,
+  WorkspaceScope,
+} from './types';
+
+// Requests the popup can send, discriminated by `action`
+export type MessageRequest =
+  | { action: 'getTimingData' }
+  | { action: 'updateTabTiming'; tabId: number; timingData: TabTiming }
+  | { action: 'getClosedTabs'; from?: number; to?: number; cursor?: string; limit?: number }
+  | { action: 'getTrackingSettings' }
+  | { action: 'setTrackingSettings'; settings: TrackingSettings }
+  | { action: 'getRetentionPolicy' }
+  | { action: 'setRetentionPolicy'; policy: RetentionPolicy }
+  | { action: 'reopenTab'; historyId: number }
+  | { action: 'restoreRecentlyClosed'; minutes: number }
+  | { action: 'getDomainStats'; range: AnalyticsRange }
+  | { action: 'listWorkspaces' }
+  | { action: 'saveWorkspace'; name: string; scope: WorkspaceScope }
+  | { action: 'renameWorkspace'; id: string; name: string }
+  | { action: 'updateWorkspace'; id: string; scope: WorkspaceScope }
+  | { action: 'deleteWorkspace'; id: string }
+  | { action: 'restoreWorkspace'; id: string; mode: RestoreMode }
+  | { action: 'getDuplicates' }
+  | { action: 'closeDuplicates'; url?: string }
+  | { action: 'getDuplicateSettings' }
+  | { action: 'setDuplicateSettings'; settings: DuplicateSettings }
+  | { action: 'getIdleSettings' }
+  | { action: 'setIdleSettings'; settings: IdleSettings }
+  | { action: 'getRules' }
+  | { action: 'setRules'; rules: TabRule[] }
+  | { action: 'runRules' }
+  | { action: 'getRuleLog' }
+  | { action: 'clearRuleLog' }
+  | { action: 'getTabGroups' }
+  | { action: 'groupTabs'; tabIds: number[]; groupId?: number; title?: string; color?: TabGroupColor }
+  | { action: 'ungroupTabs'; tabIds: number[] }
+  | { action: 'updateTabGroup'; groupId: number; title?: string; color?: TabGroupColor; collapsed?: boolean }
+  | { action: 'moveTab'; tabId: number; targetTabId: number; placement: 'before' | 'after'; groupId: number | null }
+  | { action: 'moveTabsToNewWindow'; tabIds: number[] }
+  | { action: 'mergeWindows' }
+  | { action: 'closeTabs'; tabIds: number[] }
+  | { action: 'updateTabs'; tabIds: number[]; pinned?: boolean; muted?: boolean }
+  | { action: 'muteOtherTabs'; tabId: number }
+  | { action: 'reorderTabs'; windowId: number; tabIds: number[] }
+  | { action: 'moveTabsToWindow'; tabIds: number[]; windowId: number }
+  | { action: 'bookmarkTabs'; tabIds: number[]; folder: string }
+  | { action: 'getBudgets' }
+  | { action: 'setBudgets'; budgets: DomainBudget[] }
+  | { action: 'getSavedSearches' }
+  | { action: 'setSavedSearches'; searches: SavedSearch[] }
+  | { action: 'exportBackup' }
+  | { action: 'previewImport'; backup: BackupFile; mode: ImportMode }
+  | { action: 'importBackup'; backup: BackupFile; mode: ImportMode }
+  | { action: 'forgetSite'; hostname: string }
+  | { action: 'getUndoLog' }
+  | { action: 'undo'; count: number };
+
+export type MessageAction = MessageRequest['action'];
+
+export type RequestFor<A extends MessageAction> = Extract<MessageRequest, { action: A }>;
+
+// Payload returned by the background worker for each action
+export type MessageResponseMap = {
+  getTimingData: { timingData: Record<number, TabTiming>; activeTabId: number | null };
+  updateTabTiming: { success: boolean };
+  getClosedTabs: { closedTabs: ClosedTabData[]; nextCursor: string | null; total: number };
+  getTrackingSettings: { settings: TrackingSettings };
+  setTrackingSettings: { settings: TrackingSettings };
+  getRetentionPolicy: { policy: RetentionPolicy };
+  setRetentionPolicy: { policy: RetentionPolicy };
+  reopenTab: { tabId: number; restoredFrom: 'session' | 'position' };
+  restoreRecentlyClosed: { tabIds: number[] };
+  getDomainStats: { range: AnalyticsRange; from: number; to: number; domains: DomainStats[] };
+  listWorkspaces: { workspaces: Workspace[] };
+  saveWorkspace: { workspace: Workspace };
+  renameWorkspace: { workspace: Workspace };
+  updateWorkspace: { workspace: Workspace };
+  deleteWorkspace: { id: string };
+  restoreWorkspace: { tabIds: number[] };
+  getDuplicates: { groups: DuplicateGroup[] };
+  closeDuplicates: { closedTabIds: number[]; survivorIds: number[] };
+  getDuplicateSettings: { settings: DuplicateSettings };
+  setDuplicateSettings: { settings: DuplicateSettings };
+  getIdleSettings: { settings: IdleSettings };
+  setIdleSettings: { settings: IdleSettings };
+  getRules: { rules: TabRule[] };
+  setRules: { rules: TabRule[] };
+  runRules: { entries: RuleLogEntry[] };
+  getRuleLog: { entries: RuleLogEntry[] };
+  clearRuleLog: { success: boolean };
+  getTabGroups: { groups: TabGroupSummary[] };
+  groupTabs: { groupId: number };
+  ungroupTabs: { tabIds: number[] };
+  updateTabGroup: { groupId: number };
+  moveTab: { tabId: number };
+  moveTabsToNewWindow: { windowId: number };
+  mergeWindows: { windowId: number; movedTabIds: number[] };
+  closeTabs: { tabIds: number[] };
+  updateTabs: { tabIds: number[] };
+  muteOtherTabs: { tabIds: number[] };
+  reorderTabs: { windowId: number; previousTabIds: number[] };
+  moveTabsToWindow: { windowId: number };
+  bookmarkTabs: { folderId: string; count: number };
+  getBudgets: { budgets: DomainBudget[]; statuses: BudgetStatus[] };
+  setBudgets: { budgets: DomainBudget[]; statuses: BudgetStatus[] };
+  getSavedSearches: { searches: SavedSearch[] };
+  setSavedSearches: { searches: SavedSearch[] };
+  exportBackup: { backup: BackupFile };
+  previewImport: { summary: ImportSummary };
+  importBackup: { summary: ImportSummary };
+  forgetSite: { hostname: string; removedTabs: number; removedClosedTabs: number };
+  getUndoLog: { entries: UndoEntry[] };
+  undo: { undone: UndoEntry[]; tabIds: number[] };
+};
+
+export type ResponseFor<A extends MessageAction> = MessageResponseMap[A];
+
+export type MessageErrorCode =
+  | 'RUNTIME_ERROR'
+  | 'UNKNOWN_ACTION'
+  | 'INVALID_REQUEST'
+  | 'INVALID_RESPONSE'
+  | 'HANDLER_ERROR';
+
+// Envelope sent back over the wire, discriminated by `ok`
+export type MessageResult<A extends MessageAction = MessageAction> =
+  | { ok: true; action: A; data: ResponseFor<A> }
+  | { ok: false; action: string; error: { code: MessageErrorCode; message: string } };
+
+// Error thrown by sendMessage for any failed round trip
+export class MessageError extends Error {
+  readonly code: MessageErrorCode;
+  readonly action: string;
+
+  constructor(code: MessageErrorCode, action: string, message: string) {
+    super(`${action}: ${message}`);
+    this.name = 'MessageError';
+    this.code = code;
+    this.action = action;
+  }
+}
+
+// Runtime guards
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isOptionalString = (value: unknown): boolean =>
+  value === undefined || typeof value === 'string';
+
+const isOptionalNumber = (value: unknown): boolean =>
+  value === undefined || isNumber(value);
+
+const isOptionalBoolean = (value: unknown): boolean =>
+  value === undefined || typeof value === 'boolean';
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isOptionalIntervals = (value: unknown): boolean =>
+  value === undefined ||
+  (Array.isArray(value) && value.every((interval) => isObject(interval) && isNumber(interval.start) && isNumber(interval.end)));
+
+const isOptionalPageVisits = (value: unknown): boolean =>
+  value === undefined ||
+  (Array.isArray(value) &&
+    value.every((page) => isObject(page) && typeof page.url === 'string' && typeof page.title === 'string' && isNumber(page.at)));
+
+const isTabTiming = (value: unknown): value is TabTiming =>
+  isObject(value) &&
+  isNumber(value.openedAt) &&
+  isNumber(value.totalActiveTime) &&
+  isOptionalNumber(value.currentActiveTime) &&
+  isOptionalNumber(value.totalIdleTime) &&
+  isOptionalNumber(value.currentIdleTime) &&
+  isOptionalNumber(value.lastActivatedAt) &&
+  isOptionalIntervals(value.idleIntervals) &&
+  isOptionalIntervals(value.activeIntervals) &&
+  isOptionalPageVisits(value.pages) &&
+  isOptionalNumber(value.totalAudibleTime) &&
+  isOptionalNumber(value.currentAudibleTime);
+
+const isClosedTabData = (value: unknown): value is ClosedTabData =>
+  isObject(value) &&
+  isNumber(value.id) &&
+  isOptionalNumber(value.historyId) &&
+  isNumber(value.closedAt) &&
+  isNumber(value.openedAt) &&
+  isNumber(value.totalActiveTime) &&
+  isNumber(value.totalTimeOpen) &&
+  isOptionalNumber(value.totalIdleTime) &&
+  isOptionalString(value.title) &&
+  isOptionalString(value.url) &&
+  isOptionalString(value.favIconUrl) &&
+  isOptionalIntervals(value.activeIntervals) &&
+  isOptionalPageVisits(value.pages) &&
+  isOptionalNumber(value.totalAudibleTime) &&
+  isOptionalNumber(value.windowId) &&
+  isOptionalNumber(value.index) &&
+  isOptionalBoolean(value.pinned);
+
+const isRetentionPolicy = (value: unknown): value is RetentionPolicy =>
+  isObject(value) &&
+  isNumber(value.maxAgeDays) &&
+  value.maxAgeDays > 0 &&
+  isNumber(value.maxEntries) &&
+  value.maxEntries > 0;
+
+const isAnalyticsRange = (value: unknown): value is AnalyticsRange =>
+  value === 'day' || value === 'week' || value === 'month';
+
+const isDomainStats = (value: unknown): value is DomainStats =>
+  isObject(value) &&
+  typeof value.hostname === 'string' &&
+  isNumber(value.activeTime) &&
+  isNumber(value.openTime) &&
+  isNumber(value.tabCount) &&
+  isNumber(value.openTabCount);
+
+const isWorkspace = (value: unknown): value is Workspace =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  isNumber(value.createdAt) &&
+  isNumber(value.updatedAt) &&
+  Array.isArray(value.windows) &&
+  value.windows.every((window) =>
+    isObject(window) &&
+    Array.isArray(window.tabs) &&
+    window.tabs.every((tab) =>
+      isObject(tab) && typeof tab.url === 'string' && typeof tab.title === 'string' && typeof tab.pinned === 'boolean'
+    )
+  );
+
+const isWorkspaceScope = (value: unknown): value is WorkspaceScope => value === 'all' || value === 'current';
+
+const isRestoreMode = (value: unknown): value is RestoreMode => value === 'newWindow' || value === 'replace';
+
+const isDuplicateSettings = (value: unknown): value is DuplicateSettings =>
+  isObject(value) &&
+  typeof value.ignoreHash === 'boolean' &&
+  typeof value.ignoreTrackingParams === 'boolean' &&
+  typeof value.ignoreTrailingSlash === 'boolean' &&
+  typeof value.autoFocusExisting === 'boolean';
+
+const isTrackingSettings = (value: unknown): value is TrackingSettings =>
+  validateTrackingSettings(value).length === 0;
+
+// Chrome does not accept idle detection intervals below 15 seconds
+const isIdleSettings = (value: unknown): value is IdleSettings =>
+  isObject(value) && isNumber(value.thresholdSeconds) && value.thresholdSeconds >= 15;
+
+const isRuleAction = (value: unknown): value is TabRule['action'] =>
+  value === 'discard' || value === 'close' || value === 'archive' || value === 'keep';
+
+const isTabRule = (value: unknown): value is TabRule =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.enabled === 'boolean' &&
+  isNonEmptyString(value.domainPattern) &&
+  isNumber(value.inactiveMinutes) &&
+  value.inactiveMinutes >= 0 &&
+  isRuleAction(value.action) &&
+  typeof value.exemptPinned === 'boolean' &&
+  typeof value.exemptAudible === 'boolean';
+
+const isRuleLogEntry = (value: unknown): value is RuleLogEntry =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.ruleId === 'string' &&
+  typeof value.ruleName === 'string' &&
+  isRuleAction(value.action) &&
+  value.action !== 'keep' &&
+  isNumber(value.tabId) &&
+  typeof value.title === 'string' &&
+  typeof value.url === 'string' &&
+  isNumber(value.at);
+
+const isNumberArray = (value: unknown): value is number[] => Array.isArray(value) && value.every(isNumber);
+
+const isNonEmptyNumberArray = (value: unknown): value is number[] => isNumberArray(value) && value.length > 0;
+
+const TAB_GROUP_COLORS: readonly TabGroupColor[] = ['grey', 'blue', 'red', 'yellow', 'green', 'pink', 'purple', 'cyan', 'orange'];
+
+const isTabGroupColor = (value: unknown): value is TabGroupColor =>
+  TAB_GROUP_COLORS.includes(value as TabGroupColor);
+
+const isOptionalTabGroupColor = (value: unknown): boolean => value === undefined || isTabGroupColor(value);
+
+const isTabGroupSummary = (value: unknown): value is TabGroupSummary =>
+  isObject(value) &&
+  isNumber(value.id) &&
+  isNumber(value.windowId) &&
+  typeof value.title === 'string' &&
+  isTabGroupColor(value.color) &&
+  typeof value.collapsed === 'boolean' &&
+  isNumberArray(value.tabIds) &&
+  isNumber(value.activeTime);
+
+const isDomainBudget = (value: unknown): value is DomainBudget =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.enabled === 'boolean' &&
+  isNonEmptyString(value.domainPattern) &&
+  isNumber(value.minutesPerDay) &&
+  value.minutesPerDay > 0 &&
+  typeof value.block === 'boolean';
+
+const isBudgetStatus = (value: unknown): value is BudgetStatus =>
+  isObject(value) && typeof value.budgetId === 'string' && isNumber(value.usedMs) && isNumber(value.limitMs);
+
+const UNDO_KINDS: readonly UndoKind[] = ['close', 'move', 'group', 'pin', 'mute'];
+
+const isTabState = (value: unknown): value is TabState =>
+  isObject(value) &&
+  isNumber(value.tabId) &&
+  isOptionalString(value.url) &&
+  isNumber(value.windowId) &&
+  isNumber(value.index) &&
+  typeof value.pinned === 'boolean' &&
+  typeof value.muted === 'boolean' &&
+  (value.group === undefined ||
+    (isObject(value.group) &&
+      isNumber(value.group.id) &&
+      isOptionalString(value.group.title) &&
+      isTabGroupColor(value.group.color)));
+
+const isUndoEntry = (value: unknown): value is UndoEntry =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  UNDO_KINDS.includes(value.kind as UndoKind) &&
+  typeof value.label === 'string' &&
+  isNumber(value.at) &&
+  Array.isArray(value.tabs) &&
+  value.tabs.every(isTabState);
+
+const isSavedSearch = (value: unknown): value is SavedSearch =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  isNonEmptyString(value.query) &&
+  typeof value.pinned === 'boolean';
+
+const isTabInfo = (value: unknown): value is TabInfo =>
+  isObject(value) &&
+  typeof value.title === 'string' &&
+  typeof value.url === 'string' &&
+  isOptionalString(value.favIconUrl) &&
+  isNumber(value.lastUpdated) &&
+  isOptionalNumber(value.windowId) &&
+  isOptionalNumber(value.index) &&
+  isOptionalBoolean(value.pinned);
+
+// Object keyed by tab id, as tabTiming and tabInfo are stored
+const isTabRecord = <T>(value: unknown, isEntry: (entry: unknown) => entry is T): value is Record<string, T> =>
+  isObject(value) && Object.entries(value).every(([key, entry]) => Number.isInteger(Number(key)) && isEntry(entry));
+
+const isBackupSettings = (value: unknown): value is BackupSettings =>
+  isObject(value) &&
+  (value.historyRetention === undefined || isRetentionPolicy(value.historyRetention)) &&
+  (value.duplicateSettings === undefined || isDuplicateSettings(value.duplicateSettings)) &&
+  (value.idleSettings === undefined || isIdleSettings(value.idleSettings)) &&
+  (value.tabRules === undefined || (Array.isArray(value.tabRules) && value.tabRules.every(isTabRule))) &&
+  (value.savedSearches === undefined || (Array.isArray(value.savedSearches) && value.savedSearches.every(isSavedSearch))) &&
+  (value.domainBudgets === undefined || (Array.isArray(value.domainBudgets) && value.domainBudgets.every(isDomainBudget))) &&
+  (value.trackingSettings === undefined || isTrackingSettings(value.trackingSettings));
+
+const isBackupFile = (value: unknown): value is BackupFile =>
+  isObject(value) &&
+  value.format === BACKUP_FORMAT &&
+  isNumber(value.version) &&
+  isNumber(value.exportedAt) &&
+  isTabRecord(value.tabTiming, isTabTiming) &&
+  isTabRecord(value.tabInfo, isTabInfo) &&
+  Array.isArray(value.closedTabs) &&
+  value.closedTabs.every(isClosedTabData) &&
+  Array.isArray(value.workspaces) &&
+  value.workspaces.every(isWorkspace) &&
+  isBackupSettings(value.settings);
+
+const isImportMode = (value: unknown): value is ImportMode => value === 'merge' || value === 'replace';
+
+const isImportSummary = (value: unknown): value is ImportSummary =>
+  isObject(value) &&
+  (['tabTiming', 'tabInfo', 'closedTabs', 'workspaces', 'settings'] as const).every((section) => {
+    const counts = value[section];
+    return isObject(counts) && isNumber(counts.added) && isNumber(counts.updated) &&
+      isNumber(counts.removed) && isNumber(counts.unchanged);
+  });
+
+const hasWorkspace = (data: unknown): boolean => isObject(data) && isWorkspace(data.workspace);
+
+const hasRules = (data: unknown): boolean =>
+  isObject(data) && Array.isArray(data.rules) && data.rules.every(isTabRule);
+
+const hasRuleLog = (data: unknown): boolean =>
+  isObject(data) && Array.isArray(data.entries) && data.entries.every(isRuleLogEntry);
+
+const hasBudgets = (data: unknown): boolean =>
+  isObject(data) && Array.isArray(data.budgets) && data.budgets.every(isDomainBudget);
+
+const hasBudgetStatuses = (data: unknown): boolean =>
+  hasBudgets(data) && isObject(data) && Array.isArray(data.statuses) && data.statuses.every(isBudgetStatus);
+
+const hasSavedSearches = (data: unknown): boolean =>
+  isObject(data) && Array.isArray(data.searches) && data.searches.every(isSavedSearch);
+
+interface Validator {
+  request: (message: Record<string, unknown>) => boolean;
+  response: (data: unknown) => boolean;
+}
+
+// One entry per action; the mapped type makes a missing action a compile error
+const validators: { [A in MessageAction]: Validator } = {
+  getTimingData: {
+    request: () => true,
+    response: (data) =>
+      isObject(data) &&
+      isObject(data.timingData) &&
+      Object.values(data.timingData).every(isTabTiming) &&
+      (data.activeTabId === null || isNumber(data.activeTabId)),
+  },
+  updateTabTiming: {
+    request: (message) => isNumber(message.tabId) && isTabTiming(message.timingData),
+    response: (data) => isObject(data) && typeof data.success === 'boolean',
+  },
+  getClosedTabs: {
+    request: (message) =>
+      isOptionalNumber(message.from) &&
+      isOptionalNumber(message.to) &&
+      isOptionalString(message.cursor) &&
+      isOptionalNumber(message.limit),
+    response: (data) =>
+      isObject(data) &&
+      Array.isArray(data.closedTabs) &&
+      data.closedTabs.every(isClosedTabData) &&
+      (data.nextCursor === null || typeof data.nextCursor === 'string') &&
+      isNumber(data.total),
+  },
+  getTrackingSettings: {
+    request: () => true,
+    response: (data) => isObject(data) && isTrackingSettings(data.settings),
+  },
+  setTrackingSettings: {
+    request: (message) => isTrackingSettings(message.settings),
+    response: (data) => isObject(data) && isTrackingSettings(data.settings),
+  },
+  getRetentionPolicy: {
+    request: () => true,
+    response: (data) => isObject(data) && isRetentionPolicy(data.policy),
+  },
+  setRetentionPolicy: {
+    request: (message) => isRetentionPolicy(message.policy),
+    response: (data) => isObject(data) && isRetentionPolicy(data.policy),
+  },
+  reopenTab: {
+    request: (message) => isNumber(message.historyId),
+    response: (data) =>
+      isObject(data) && isNumber(data.tabId) && (data.restoredFrom === 'session' || data.restoredFrom === 'position'),
+  },
+  restoreRecentlyClosed: {
+    request: (message) => isNumber(message.minutes) && message.minutes > 0,
+    response: (data) => isObject(data) && isNumberArray(data.tabIds),
+  },
+  getDomainStats: {
+    request: (message) => isAnalyticsRange(message.range),
+    response: (data) =>
+      isObject(data) &&
+      isAnalyticsRange(data.range) &&
+      isNumber(data.from) &&
+      isNumber(data.to) &&
+      Array.isArray(data.domains) &&
+      data.domains.every(isDomainStats),
+  },
+  listWorkspaces: {
+    request: () => true,
+    response: (data) => isObject(data) && Array.isArray(data.workspaces) && data.workspaces.every(isWorkspace),
+  },
+  saveWorkspace: {
+    request: (message) => isNonEmptyString(message.name) && isWorkspaceScope(message.scope),
+    response: hasWorkspace,
+  },
+  renameWorkspace: {
+    request: (message) => typeof message.id === 'string' && isNonEmptyString(message.name),
+    response: hasWorkspace,
+  },
+  updateWorkspace: {
+    request: (message) => typeof message.id === 'string' && isWorkspaceScope(message.scope),
+    response: hasWorkspace,
+  },
+  deleteWorkspace: {
+    request: (message) => typeof message.id === 'string',
+    response: (data) => isObject(data) && typeof data.id === 'string',
+  },
+  restoreWorkspace: {
+    request: (message) => typeof message.id === 'string' && isRestoreMode(message.mode),
+    response: (data) => isObject(data) && isNumberArray(data.tabIds),
+  },
+  getDuplicates: {
+    request: () => true,
+    response: (data) =>
+      isObject(data) &&
+      Array.isArray(data.groups) &&
+      data.groups.every((group) => isObject(group) && typeof group.url === 'string' && isNumberArray(group.tabIds)),
+  },
+  closeDuplicates: {
+    request: (message) => isOptionalString(message.url),
+    response: (data) => isObject(data) && isNumberArray(data.closedTabIds) && isNumberArray(data.survivorIds),
+  },
+  getDuplicateSettings: {
+    request: () => true,
+    response: (data) => isObject(data) && isDuplicateSettings(data.settings),
+  },
+  setDuplicateSettings: {
+    request: (message) => isDuplicateSettings(message.settings),
+    response: (data) => isObject(data) && isDuplicateSettings(data.settings),
+  },
+  getIdleSettings: {
+    request: () => true,
+    response: (data) => isObject(data) && isIdleSettings(data.settings),
+  },
+  setIdleSettings: {
+    request: (message) => isIdleSettings(message.settings),
+    response: (data) => isObject(data) && isIdleSettings(data.settings),
+  },
+  getRules: {
+    request: () => true,
+    response: hasRules,
+  },
+  setRules: {
+    request: hasRules,
+    response: hasRules,
+  },
+  runRules: {
+    request: () => true,
+    response: hasRuleLog,
+  },
+  getRuleLog: {
+    request: () => true,
+    response: hasRuleLog,
+  },
+  clearRuleLog: {
+    request: () => true,
+    response: (data) => isObject(data) && typeof data.success === 'boolean',
+  },
+  getTabGroups: {
+    request: () => true,
+    response: (data) => isObject(data) && Array.isArray(data.groups) && data.groups.every(isTabGroupSummary),
+  },
+  groupTabs: {
+    request: (message) =>
+      isNonEmptyNumberArray(message.tabIds) &&
+      isOptionalNumber(message.groupId) &&
+      isOptionalString(message.title) &&
+      isOptionalTabGroupColor(message.color),
+    response: (data) => isObject(data) && isNumber(data.groupId),
+  },
+  ungroupTabs: {
+    request: (message) => isNonEmptyNumberArray(message.tabIds),
+    response: (data) => isObject(data) && isNumberArray(data.tabIds),
+  },
+  updateTabGroup: {
+    request: (message) =>
+      isNumber(message.groupId) &&
+      isOptionalString(message.title) &&
+      isOptionalTabGroupColor(message.color) &&
+      isOptionalBoolean(message.collapsed),
+    response: (data) => isObject(data) && isNumber(data.groupId),
+  },
+  moveTab: {
+    request: (message) =>
+      isNumber(message.tabId) &&
+      isNumber(message.targetTabId) &&
+      (message.placement === 'before' || message.placement === 'after') &&
+      (message.groupId === null || isNumber(message.groupId)),
+    response: (data) => isObject(data) && isNumber(data.tabId),
+  },
+  moveTabsToNewWindow: {
+    request: (message) => isNonEmptyNumberArray(message.tabIds),
+    response: (data) => isObject(data) && isNumber(data.windowId),
+  },
+  mergeWindows: {
+    request: () => true,
+    response: (data) => isObject(data) && isNumber(data.windowId) && isNumberArray(data.movedTabIds),
+  },
+  closeTabs: {
+    request: (message) => isNonEmptyNumberArray(message.tabIds),
+    response: (data) => isObject(data) && isNumberArray(data.tabIds),
+  },
+  updateTabs: {
+    request: (message) =>
+      isNonEmptyNumberArray(message.tabIds) && isOptionalBoolean(message.pinned) && isOptionalBoolean(message.muted),
+    response: (data) => isObject(data) && isNumberArray(data.tabIds),
+  },
+  muteOtherTabs: {
+    request: (message) => isNumber(message.tabId),
+    response: (data) => isObject(data) && isNumberArray(data.tabIds),
+  },
+  reorderTabs: {
+    request: (message) => isNumber(message.windowId) && isNonEmptyNumberArray(message.tabIds),
+    response: (data) => isObject(data) && isNumber(data.windowId) && isNumberArray(data.previousTabIds),
+  },
+  moveTabsToWindow: {
+    request: (message) => isNonEmptyNumberArray(message.tabIds) && isNumber(message.windowId),
+    response: (data) => isObject(data) && isNumber(data.windowId),
+  },
+  bookmarkTabs: {
+    request: (message) => isNonEmptyNumberArray(message.tabIds) && isNonEmptyString(message.folder),
+    response: (data) => isObject(data) && typeof data.folderId === 'string' && isNumber(data.count),
+  },
+  getBudgets: {
+    request: () => true,
+    response: hasBudgetStatuses,
+  },
+  setBudgets: {
+    request: hasBudgets,
+    response: hasBudgetStatuses,
+  },
+  getSavedSearches: {
+    request: () => true,
+    response: hasSavedSearches,
+  },
+  setSavedSearches: {
+    request: hasSavedSearches,
+    response: hasSavedSearches,
+  },
+  exportBackup: {
+    request: () => true,
+    response: (data) => isObject(data) && isBackupFile(data.backup),
+  },
+  previewImport: {
+    request: (message) => isBackupFile(message.backup) && isImportMode(message.mode),
+    response: (data) => isObject(data) && isImportSummary(data.summary),
+  },
+  importBackup: {
+    request: (message) => isBackupFile(message.backup) && isImportMode(message.mode),
+    response: (data) => isObject(data) && isImportSummary(data.summary),
+  },
+  forgetSite: {
+    request: (message) => isNonEmptyString(message.hostname),
+    response: (data) =>
+      isObject(data) &&
+      typeof data.hostname === 'string' &&
+      isNumber(data.removedTabs) &&
+      isNumber(data.removedClosedTabs),
+  },
+  getUndoLog: {
+    request: () => true,
+    response: (data) => isObject(data) && Array.isArray(data.entries) && data.entries.every(isUndoEntry),
+  },
+  undo: {
+    request: (message) => isNumber(message.count) && Number.isInteger(message.count) && message.count > 0,
+    response: (data) =>
+      isObject(data) && Array.isArray(data.undone) && data.undone.every(isUndoEntry) && isNumberArray(data.tabIds),
+  },
+};
+
+export const isMessageAction = (value: unknown): value is MessageAction =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(validators, value);
+
+const isMessageResult = (value: unknown): value is MessageResult =>
+  isObject(value) &&
+  typeof value.ok === 'boolean' &&
+  (value.ok || (isObject(value.error) && typeof value.error.message === 'string'));
+
+// Send a request to the background worker and resolve with its validated payload
+export function sendMessage<R extends MessageRequest>(request: R): Promise<ResponseFor<R['action']>> {
+  const { action } = request;
+  return new Promise((resolve, reject) => {
+    if (!isMessageAction(action)) {
+      reject(new MessageError('UNKNOWN_ACTION', String(action), 'Unknown action'));
+      return;
+    }
+
+    chrome.runtime.sendMessage(request, (response: unknown) => {
+      if (chrome.runtime.lastError) {
+        reject(new MessageError('RUNTIME_ERROR', action, chrome.runtime.lastError.message));
+        return;
+      }
+      if (!isMessageResult(response)) {
+        reject(new MessageError('INVALID_RESPONSE', action, 'Malformed response envelope'));
+        return;
+      }
+      if (!response.ok) {
+        reject(new MessageError(response.error.code, action, response.error.message));
+        return;
+      }
+      if (!validators[action].response(response.data)) {
+        reject(new MessageError('INVALID_RESPONSE', action, 'Response payload failed validation'));
+        return;
+      }
+      resolve(response.data as ResponseFor<R['action']>);
+    });
+  });
+}
+
+export type MessageHandlers = {
+  [A in MessageAction]: (request: RequestFor<A>) => ResponseFor<A> | Promise<ResponseFor<A>>;
+};
+
+const failure = (action: string, code: MessageErrorCode, message: string): MessageResult => ({
+  ok: false,
+  action,
+  error: { code, message },
+});
+
+// Build a chrome.runtime.onMessage listener that dispatches to typed handlers
+export function createMessageListener(handlers: MessageHandlers) {
+  return (
+    message: Record<string, unknown>,
+    _sender: unknown,
+    sendResponse: (response: MessageResult) => void
+  ): boolean => {
+    const action = isObject(message) ? message.action : undefined;
+    if (!isMessageAction(action)) {
+      sendResponse(failure(String(action), 'UNKNOWN_ACTION', `Unknown action "${String(action)}"`));
+      return false;
+    }
+    if (!validators[action].request(message)) {
+      sendResponse(failure(action, 'INVALID_REQUEST', 'Request payload failed validation'));
+      return false;
+    }
+
+    const handler = handlers[action] as (request: MessageRequest) => unknown;
+    Promise.resolve()
+      .then(() => handler(message as MessageRequest))
+      .then(
+        (data) => sendResponse({ ok: true, action, data } as MessageResult),
+        (error: unknown) =>
+          sendResponse(failure(action, 'HANDLER_ERROR', error instanceof Error ? error.message : String(error)))
+      );
+    return true; // Keep message channel open for async response
+  };
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuery, searchItems, type QuerySubject } from './query';
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+// 2am local time, before a 4am day start
+const NOW = new Date(2024, 4, 10, 2).getTime();
+
+const subject = (overrides: Partial<QuerySubject>): QuerySubject => ({
+  title: '',
+  url: '',
+  activeTime: 0,
+  openedAt: NOW - HOUR,
+  ...overrides,
+});
+
+const matches = (query: string, item: QuerySubject, dayStartHour = 0): boolean =>
+  searchItems([item], parseQuery(query), (entry) => entry, NOW, dayStartHour).length === 1;
+
+describe('parseQuery', () => {
+  it('parses fields, comparisons and durations', () => {
+    expect(parseQuery('domain:GitHub.com active>1h30m pinned:true').clauses).toEqual([[
+      { kind: 'domain', value: 'github.com', negated: false },
+      { kind: 'active', op: '>', duration: 90 * MINUTE, negated: false },
+      { kind: 'pinned', value: true, negated: false },
+    ]]);
+  });
+
+  it('parses negated words and fields', () => {
+    expect(parseQuery('-youtube -title:music').clauses).toEqual([[
+      { kind: 'text', value: 'youtube', phrase: false, negated: true },
+      { kind: 'title', value: 'music', negated: true },
+    ]]);
+  });
+
+  it('keeps quoted phrases and quoted field values together', () => {
+    expect(parseQuery('"Pull Request" title:"release notes"').clauses).toEqual([[
+      { kind: 'text', value: 'pull request', phrase: true, negated: false },
+      { kind: 'title', value: 'release notes', negated: false },
+    ]]);
+  });
+
+  it('splits clauses on OR, which binds looser than the implicit AND', () => {
+    expect(parseQuery('a b OR c').clauses.map((clause) => clause.map((term) => term.kind === 'text' && term.value)))
+      .toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('treats unknown fields and a lowercase or as text', () => {
+    expect(parseQuery('foo:bar or').clauses).toEqual([[
+      { kind: 'text', value: 'foo:bar', phrase: false, negated: false },
+      { kind: 'text', value: 'or', phrase: false, negated: false },
+    ]]);
+  });
+
+  it('reports invalid values with the span of the whole term', () => {
+    expect(parseQuery('tabs pinned:yes -active>soon').errors).toEqual([
+      { message: 'pinned must be pinned:true or pinned:false', start: 5, end: 15 },
+      { message: '"soon" is not a duration like 10m or 2h', start: 16, end: 28 },
+    ]);
+    expect(parseQuery('domain>x closed:later').errors).toEqual([
+      { message: 'domain only supports ":"', start: 0, end: 8 },
+      { message: 'closed needs today, yesterday, week, month or a yyyy-mm-dd date', start: 9, end: 21 },
+    ]);
+  });
+
+  it('reports closed: dates that do not exist', () => {
+    expect(parseQuery('closed:2024-02-31 closed>2024-13-45').errors).toEqual([
+      { message: '"2024-02-31" is not a date in the calendar', start: 0, end: 17 },
+      { message: '"2024-13-45" is not a date in the calendar', start: 18, end: 35 },
+    ]);
+    expect(parseQuery('closed:2024-02-29').errors).toEqual([]);
+  });
+
+  it('reports a missing closing quote and a dangling OR', () => {
+    expect(parseQuery('a "bc').errors).toEqual([{ message: 'Missing closing quote', start: 2, end: 5 }]);
+    expect(parseQuery('OR a OR').errors).toEqual([
+      { message: 'OR needs a term on both sides', start: 0, end: 2 },
+      { message: 'OR needs a term on both sides', start: 5, end: 7 },
+    ]);
+  });
+});
+
+describe('searchItems', () => {
+  const github = subject({ title: 'Pull requests', url: 'https://docs.github.com/pulls', activeTime: 20 * MINUTE });
+  const youtube = subject({ title: 'Music video', url: 'https://www.youtube.com/watch', pinned: true });
+
+  it('matches fields and their negation', () => {
+    expect(matches('domain:docs.github.com', github)).toBe(true);
+    expect(matches('domain:github.com', github)).toBe(false);
+    expect(matches('domain:*.github.com', github)).toBe(true);
+    expect(matches('-domain:*.github.com', github)).toBe(false);
+    expect(matches('active>10m', github)).toBe(true);
+    expect(matches('active<10m', github)).toBe(false);
+    expect(matches('pinned:true', youtube)).toBe(true);
+    expect(matches('-youtube', youtube)).toBe(false);
+  });
+
+  it('matches phrases literally and words fuzzily', () => {
+    expect(matches('"pull requests"', github)).toBe(true);
+    expect(matches('"requests pull"', github)).toBe(false);
+    expect(matches('pllreq', github)).toBe(true);
+  });
+
+  it('matches either side of OR', () => {
+    expect(searchItems([github, youtube], parseQuery('domain:youtube.com OR title:pull'), (item) => item, NOW))
+      .toHaveLength(2);
+    expect(searchItems([github, youtube], parseQuery('domain:youtube.com OR title:nothing'), (item) => item, NOW))
+      .toEqual([youtube]);
+  });
+
+  it('places closed: days at the configured day start hour', () => {
+    const closedAt = (month: number, day: number, hour: number) => subject({ closedAt: new Date(2024, month, day, hour).getTime() });
+    const afterDayStart = closedAt(4, 9, 5);
+    const beforeDayStart = closedAt(4, 9, 3);
+    const earlyNextMorning = closedAt(4, 10, 1);
+
+    expect(matches('closed:today', afterDayStart, 4)).toBe(true);
+    expect(matches('closed:today', beforeDayStart, 4)).toBe(false);
+    expect(matches('closed:yesterday', beforeDayStart, 4)).toBe(true);
+    expect(matches('closed:today', earlyNextMorning, 4)).toBe(true);
+
+    expect(matches('closed:2024-05-09', earlyNextMorning, 4)).toBe(true);
+    expect(matches('closed:2024-05-09', beforeDayStart, 4)).toBe(false);
+    expect(matches('closed<2024-05-09', beforeDayStart, 4)).toBe(true);
+    expect(matches('closed>2024-05-08', afterDayStart, 4)).toBe(true);
+    expect(matches('closed>2024-05-09', earlyNextMorning, 4)).toBe(false);
+
+    // With days starting at midnight the same tab closed on the 10th
+    expect(matches('closed:2024-05-10', earlyNextMorning)).toBe(true);
+  });
+
+  it('never matches open tabs with closed:', () => {
+    expect(matches('closed:today', github)).toBe(false);
+    expect(matches('-closed:today', github)).toBe(true);
+  });
+});
@@ -0,0 +1,285 @@
+// Search query language shared by the open and closed tab views.
+//
+//   github pull          fuzzy text, every word must match
+//   "pull request"       exact phrase
+//   -youtube             exclude literal matches
+//   domain:github.com    hostname; *.github.com also matches subdomains, as in rules
+//   title:, url:         substring of the title or URL
+//   active>10m open<2h   active or open time, units s/m/h/d, e.g. 1h30m
+//   pinned:true
+//   closed:today         today, yesterday, week, month or yyyy-mm-dd;
+//   closed>2024-05-01    closed after (>) or before (<) a date
+//   a OR b               either side; OR binds looser than the implicit AND
+import { DAY_MS, getDateStart, getDayStart } from './days';
+import { getHostname, matchesDomainPattern } from './url';
+
+type Comparison = ':' | '>' | '<';
+
+export type QueryTerm = { negated: boolean } & (
+  | { kind: 'text'; value: string; phrase: boolean }
+  | { kind: 'domain' | 'title' | 'url'; value: string }
+  | { kind: 'active' | 'open'; op: Comparison; duration: number }
+  | { kind: 'pinned'; value: boolean }
+  | { kind: 'closed'; op: Comparison; value: string }
+);
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+// Alternatives joined by OR, each a list of terms that must all match
+export interface ParsedQuery {
+  clauses: QueryTerm[][];
+  errors: QueryError[];
+}
+
+// What a query is evaluated against, for open and closed tabs alike
+export interface QuerySubject {
+  title?: string;
+  url?: string;
+  pinned?: boolean;
+  activeTime: number;
+  openedAt: number;
+  closedAt?: number;
+}
+
+const FIELDS = ['domain', 'title', 'url', 'active', 'open', 'pinned', 'closed'] as const;
+type Field = typeof FIELDS[number];
+
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: DAY_MS };
+const CLOSED_KEYWORDS = ['today', 'yesterday', 'week', 'month'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Whether a yyyy-mm-dd date exists, rather than rolling over like 2024-02-31
+const isCalendarDate = (value: string): boolean => {
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+// "1h30m" in milliseconds, or null if it is not a duration
+const parseDuration = (value: string): number | null => {
+  if (!/^(\d+(\.\d+)?[smhd])+$/i.test(value)) return null;
+  let total = 0;
+  for (const [, amount, unit] of value.toLowerCase().matchAll(/(\d+(?:\.\d+)?)([smhd])/g)) {
+    total += Number(amount) * UNIT_MS[unit];
+  }
+  return total;
+};
+
+// How well the query matches the text as an in-order subsequence, or null if
+// it does not. Consecutive characters and word starts score extra, and
+// shorter texts win ties.
+export const fuzzyScore = (text: string, query: string): number | null => {
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return 0;
+
+  let score = 0;
+  let position = -1;
+  let streak = 0;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position + 1);
+    if (index === -1) return null;
+    streak = index === position + 1 ? streak + 1 : 0;
+    const wordStart = index === 0 || /[\s/.:_-]/.test(haystack[index - 1]);
+    score += 1 + streak * 2 + (wordStart ? 3 : 0);
+    position = index;
+  }
+  return score - haystack.length / 100;
+};
+
+const isField = (name: string): name is Field => (FIELDS as readonly string[]).includes(name);
+
+// Build a field term from its raw parts, or describe why the value is invalid
+const createFieldTerm = (field: Field, op: Comparison, value: string, negated: boolean): QueryTerm | string => {
+  switch (field) {
+    case 'domain':
+    case 'title':
+    case 'url':
+      if (op !== ':') return `${field} only supports ":"`;
+      return value ? { kind: field, value: value.toLowerCase(), negated } : `${field}: needs a value`;
+    case 'active':
+    case 'open': {
+      const duration = parseDuration(value);
+      return duration === null ? `"${value}" is not a duration like 10m or 2h` : { kind: field, op, duration, negated };
+    }
+    case 'pinned':
+      if (op !== ':' || (value !== 'true' && value !== 'false')) return 'pinned must be pinned:true or pinned:false';
+      return { kind: 'pinned', value: value === 'true', negated };
+    case 'closed':
+      if (DATE_PATTERN.test(value) && !isCalendarDate(value)) return `"${value}" is not a date in the calendar`;
+      if (DATE_PATTERN.test(value) || (op === ':' && CLOSED_KEYWORDS.includes(value.toLowerCase()))) {
+        return { kind: 'closed', op, value: value.toLowerCase(), negated };
+      }
+      return `closed needs ${op === ':' ? 'today, yesterday, week, month or ' : ''}a yyyy-mm-dd date`;
+  }
+};
+
+export const parseQuery = (text: string): ParsedQuery => {
+  const clauses: QueryTerm[][] = [[]];
+  const errors: QueryError[] = [];
+  let orAt: { start: number; end: number } | null = null;
+  let i = 0;
+
+  // Read up to the next space, or to the closing quote of a quoted value
+  const readValue = (): { value: string; quoted: boolean } => {
+    if (text[i] === '"') {
+      const close = text.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push({ message: 'Missing closing quote', start: i, end: text.length });
+        const value = text.slice(i + 1);
+        i = text.length;
+        return { value, quoted: true };
+      }
+      const value = text.slice(i + 1, close);
+      i = close + 1;
+      return { value, quoted: true };
+    }
+    const start = i;
+    while (i < text.length && !/\s/.test(text[i])) i++;
+    return { value: text.slice(start, i), quoted: false };
+  };
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const negated = text[i] === '-' && i + 1 < text.length && !/\s/.test(text[i + 1]);
+    if (negated) i++;
+
+    const field = /^([a-z]+)(:|>|<)/i.exec(text.slice(i));
+    if (field && isField(field[1].toLowerCase())) {
+      i += field[0].length;
+      const { value } = readValue();
+      const term = createFieldTerm(field[1].toLowerCase() as Field, field[2] as Comparison, value, negated);
+      if (typeof term === 'string') {
+        errors.push({ message: term, start, end: i });
+      } else {
+        clauses[clauses.length - 1].push(term);
+      }
+      orAt = null;
+      continue;
+    }
+
+    const { value, quoted } = readValue();
+    if (!quoted && !negated && value === 'OR') {
+      if (clauses[clauses.length - 1].length === 0) {
+        errors.push({ message: 'OR needs a term on both sides', start, end: i });
+      } else {
+        clauses.push([]);
+      }
+      orAt = { start, end: i };
+      continue;
+    }
+    if (value) {
+      clauses[clauses.length - 1].push({ kind: 'text', value: value.toLowerCase(), phrase: quoted, negated });
+    }
+    orAt = null;
+  }
+
+  if (orAt) {
+    errors.push({ message: 'OR needs a term on both sides', ...orAt });
+  }
+  return { clauses: clauses.filter((clause) => clause.length > 0), errors };
+};
+
+// The [from, to) closedAt range a closed: keyword or date refers to, in days
+// that begin at the given hour
+const getClosedRange = (value: string, now: number, dayStartHour: number): [number, number] => {
+  const today = getDayStart(now, dayStartHour);
+  switch (value) {
+    case 'today':
+      return [today, Infinity];
+    case 'yesterday':
+      return [today - DAY_MS, today];
+    case 'week':
+      return [today - 6 * DAY_MS, Infinity];
+    case 'month':
+      return [today - 29 * DAY_MS, Infinity];
+    default: {
+      const from = getDateStart(value, dayStartHour);
+      return [from, from + DAY_MS];
+    }
+  }
+};
+
+const compare = (actual: number, op: Comparison, expected: number): boolean =>
+  op === '>' ? actual > expected : op === '<' ? actual < expected : actual === expected;
+
+const includes = (subject: QuerySubject, value: string): boolean =>
+  (subject.title || '').toLowerCase().includes(value) || (subject.url || '').toLowerCase().includes(value);
+
+// Relevance of a matching term, or null if it does not match
+const scoreTerm = (term: QueryTerm, subject: QuerySubject, now: number, dayStartHour: number): number | null => {
+  const matches = (matched: boolean) => (matched !== term.negated ? 0 : null);
+  switch (term.kind) {
+    case 'text': {
+      // Exclusions and phrases match literally; an exact phrase outranks fuzzy words
+      if (term.negated) return matches(includes(subject, term.value));
+      if (term.phrase) return includes(subject, term.value) ? 10 + term.value.length : null;
+      const scores = [subject.title || '', getHostname(subject.url), subject.url || '']
+        .map((text) => fuzzyScore(text, term.value))
+        .filter((score): score is number => score !== null);
+      return scores.length > 0 ? Math.max(...scores) : null;
+    }
+    case 'domain':
+      return matches(matchesDomainPattern(getHostname(subject.url), term.value));
+    case 'title':
+      return matches((subject.title || '').toLowerCase().includes(term.value));
+    case 'url':
+      return matches((subject.url || '').toLowerCase().includes(term.value));
+    case 'active':
+      return matches(compare(subject.activeTime, term.op, term.duration));
+    case 'open':
+      return matches(compare((subject.closedAt ?? now) - subject.openedAt, term.op, term.duration));
+    case 'pinned':
+      return matches(!!subject.pinned === term.value);
+    case 'closed': {
+      if (subject.closedAt === undefined) return matches(false);
+      const [from, to] = getClosedRange(term.value, now, dayStartHour);
+      if (term.op === '>') return matches(subject.closedAt >= to);
+      if (term.op === '<') return matches(subject.closedAt < from);
+      return matches(subject.closedAt >= from && subject.closedAt < to);
+    }
+  }
+};
+
+// Best score over the OR clauses, each the sum of its terms; null if none match
+const scoreSubject = (query: ParsedQuery, subject: QuerySubject, now: number, dayStartHour: number): number | null => {
+  if (query.clauses.length === 0) return 0;
+  let best: number | null = null;
+  for (const clause of query.clauses) {
+    let total = 0;
+    for (const term of clause) {
+      const score = scoreTerm(term, subject, now, dayStartHour);
+      if (score === null) {
+        total = NaN;
+        break;
+      }
+      total += score;
+    }
+    if (!Number.isNaN(total) && (best === null || total > best)) {
+      best = total;
+    }
+  }
+  return best;
+};
+
+// Items matching the query, best match first; ties keep their original order
+export const searchItems = <T>(
+  items: T[],
+  query: ParsedQuery,
+  toSubject: (item: T) => QuerySubject,
+  now: number,
+  dayStartHour = 0
+): T[] =>
+  items
+    .map((item) => ({ item, score: scoreSubject(query, toSubject(item), now, dayStartHour) }))
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.item);
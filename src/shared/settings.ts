@@ -0,0 +1,176 @@
+// Schema of the tracking settings: the defaults, the range of every field and
+// the labels the options page is built from. Settings read from storage or
+// received in a message are checked against it.
+import type { TrackingSettings } from './types';
+
+// Options page section a field is shown in
+export type SettingsSection = 'tracking' | 'privacy';
+
+interface FieldBase {
+  section: SettingsSection;
+  label: string;
+  description: string;
+}
+
+interface NumberField extends FieldBase {
+  kind: 'number';
+  min: number;
+  max: number;
+  unit: string;
+}
+
+interface BooleanField extends FieldBase {
+  kind: 'boolean';
+}
+
+interface TextField extends FieldBase {
+  kind: 'text';
+  placeholder: string;
+  maxLength: number;
+}
+
+interface ChoiceField extends FieldBase {
+  kind: 'choice';
+  choices: { value: string; label: string }[];
+}
+
+export type SettingsField = NumberField | BooleanField | TextField | ChoiceField;
+
+// Free-form strings are text fields; unions of string literals are choices
+type FieldFor<V> = V extends number
+  ? NumberField
+  : V extends boolean
+    ? BooleanField
+    : string extends V
+      ? TextField
+      : ChoiceField;
+
+type SettingsSchema<T> = { [K in keyof T]: FieldFor<T[K]> };
+
+export const TRACKING_SETTINGS_SCHEMA: SettingsSchema<TrackingSettings> = {
+  saveIntervalSeconds: {
+    kind: 'number',
+    section: 'tracking',
+    label: 'Save active time every',
+    description: 'How much tracked time an unexpected browser shutdown can lose at most.',
+    min: 5,
+    max: 600,
+    unit: 'seconds',
+  },
+  trackBrowserPages: {
+    kind: 'boolean',
+    section: 'tracking',
+    label: 'Track browser pages',
+    description: 'Record chrome:// pages such as settings and the new tab page like any other page.',
+  },
+  dayStartHour: {
+    kind: 'number',
+    section: 'tracking',
+    label: 'New day starts at',
+    description: 'Hour at which daily budgets reset and "Today" in insights begins, for night owls.',
+    min: 0,
+    max: 23,
+    unit: ':00',
+  },
+  popupRefreshSeconds: {
+    kind: 'number',
+    section: 'tracking',
+    label: 'Update popup timers every',
+    description: 'How often the running times in the tab list count up while the popup is open.',
+    min: 1,
+    max: 60,
+    unit: 'seconds',
+  },
+  trackingPaused: {
+    kind: 'boolean',
+    section: 'privacy',
+    label: 'Pause tracking',
+    description: 'Stop recording time, pages and closed tabs until tracking is resumed. Data already recorded is kept.',
+  },
+  excludedDomains: {
+    kind: 'text',
+    section: 'privacy',
+    label: 'Excluded sites',
+    description: 'Comma-separated domains to keep out of the records, such as your bank or intranet. "*.example.com" covers every subdomain.',
+    placeholder: '*.mybank.com, intranet.example',
+    maxLength: 2000,
+  },
+  excludeIncognito: {
+    kind: 'boolean',
+    section: 'privacy',
+    label: 'Exclude incognito tabs',
+    description: 'Treat every incognito tab like an excluded site, when the extension is allowed in incognito.',
+  },
+  excludedTabMode: {
+    kind: 'choice',
+    section: 'privacy',
+    label: 'Excluded tabs are',
+    description: 'Counting them anonymously keeps their time in insights under a single "excluded" entry without any address or title.',
+    choices: [
+      { value: 'ignore', label: 'Not tracked at all' },
+      { value: 'anonymous', label: 'Counted anonymously' },
+    ],
+  },
+  stripUrlDetails: {
+    kind: 'boolean',
+    section: 'privacy',
+    label: 'Strip query strings',
+    description: 'Store page addresses without the part after "?" or "#", which often holds search terms and account details.',
+  },
+};
+
+export const DEFAULT_TRACKING_SETTINGS: TrackingSettings = {
+  saveIntervalSeconds: 30,
+  trackBrowserPages: false,
+  dayStartHour: 0,
+  popupRefreshSeconds: 1,
+  trackingPaused: false,
+  excludedDomains: '',
+  excludeIncognito: true,
+  excludedTabMode: 'ignore',
+  stripUrlDetails: false,
+};
+
+const FIELDS = Object.keys(TRACKING_SETTINGS_SCHEMA) as (keyof TrackingSettings)[];
+
+// Why a value is not acceptable for a field, or null if it is
+const checkField = (field: SettingsField, value: unknown): string | null => {
+  if (field.kind === 'boolean') {
+    return typeof value === 'boolean' ? null : `${field.label} must be on or off`;
+  }
+  if (field.kind === 'text') {
+    return typeof value === 'string' && value.length <= field.maxLength
+      ? null
+      : `${field.label} must be text of at most ${field.maxLength} characters`;
+  }
+  if (field.kind === 'choice') {
+    return field.choices.some((choice) => choice.value === value)
+      ? null
+      : `${field.label} must be one of ${field.choices.map((choice) => choice.label).join(', ')}`;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < field.min || value > field.max) {
+    return `${field.label} must be a whole number from ${field.min} to ${field.max}`;
+  }
+  return null;
+};
+
+// One message per invalid or missing field; empty when the value is valid
+export const validateTrackingSettings = (value: unknown): string[] => {
+  if (typeof value !== 'object' || value === null) return ['Settings must be an object'];
+  const record = value as Record<string, unknown>;
+  return FIELDS.map((key) => checkField(TRACKING_SETTINGS_SCHEMA[key], record[key])).filter(
+    (error): error is string => error !== null
+  );
+};
+
+// Settings with every missing or invalid field replaced by its default, so
+// settings saved by an older version keep working
+export const normalizeTrackingSettings = (value: unknown): TrackingSettings => {
+  const record = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  return Object.fromEntries(
+    FIELDS.map((key) => [
+      key,
+      checkField(TRACKING_SETTINGS_SCHEMA[key], record[key]) === null ? record[key] : DEFAULT_TRACKING_SETTINGS[key],
+    ])
+  ) as TrackingSettings;
+};
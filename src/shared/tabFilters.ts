@@ -0,0 +1,105 @@
+// Filtering, sorting and fuzzy ranking shared by the tab lists and the
+// command palette
+import { fuzzyScore, parseQuery, searchItems, type QuerySubject } from './query';
+import type { ClosedTabData } from './types';
+import { getHostname } from './url';
+
+export type ClosedTabFilter = 'all' | 'short' | 'medium' | 'long';
+export type ClosedTabSort = 'relevance' | 'closed' | 'opened' | 'active' | 'total';
+export type OpenTabSort = 'strip' | 'domain' | 'opened' | 'active' | 'lastUsed';
+
+interface Searchable {
+  title?: string;
+  url?: string;
+  pinned?: boolean;
+  openedAt: number;
+  totalActiveTime: number;
+  closedAt?: number;
+}
+
+const MINUTE = 60 * 1000;
+
+const toSubject = (tab: Searchable): QuerySubject => ({
+  title: tab.title,
+  url: tab.url,
+  pinned: tab.pinned,
+  activeTime: tab.totalActiveTime,
+  openedAt: tab.openedAt,
+  closedAt: tab.closedAt,
+});
+
+// Tabs matching a search query (see query.ts), best match first; an empty
+// query matches all in the given order. Dates refer to days beginning at the
+// tracking settings' hour.
+export const filterTabs = <T extends Searchable>(tabs: T[], searchQuery: string, now = Date.now(), dayStartHour = 0): T[] =>
+  searchItems(tabs, parseQuery(searchQuery), toSubject, now, dayStartHour);
+
+const CLOSED_TAB_FILTERS: Record<ClosedTabFilter, (tab: ClosedTabData) => boolean> = {
+  all: () => true,
+  short: (tab) => tab.totalTimeOpen < 5 * MINUTE,
+  medium: (tab) => tab.totalTimeOpen >= 5 * MINUTE && tab.totalTimeOpen < 60 * MINUTE,
+  long: (tab) => tab.totalTimeOpen >= 60 * MINUTE,
+};
+
+// Relevance keeps the order filterTabs ranked them in
+const CLOSED_TAB_SORTS: Record<ClosedTabSort, (a: ClosedTabData, b: ClosedTabData) => number> = {
+  relevance: () => 0,
+  closed: (a, b) => b.closedAt - a.closedAt,
+  opened: (a, b) => b.openedAt - a.openedAt,
+  active: (a, b) => b.totalActiveTime - a.totalActiveTime,
+  total: (a, b) => b.totalTimeOpen - a.totalTimeOpen,
+};
+
+// Closed tabs matching the search and open-duration filter, best match, newest
+// or longest first
+export const filterAndSortClosedTabs = (
+  closedTabs: ClosedTabData[],
+  searchQuery: string,
+  filterBy: ClosedTabFilter = 'all',
+  sortBy: ClosedTabSort = 'closed',
+  dayStartHour = 0
+): ClosedTabData[] =>
+  filterTabs(closedTabs, searchQuery, Date.now(), dayStartHour).filter(CLOSED_TAB_FILTERS[filterBy]).sort(CLOSED_TAB_SORTS[sortBy]);
+
+interface SortableTab {
+  title?: string;
+  url?: string;
+  pinned?: boolean;
+  index: number;
+  openedAt: number;
+  totalActiveTime: number;
+  lastActivatedAt?: number;
+}
+
+// Strip keeps the browser's order; the others put the oldest, most used or
+// most recently used first
+const OPEN_TAB_SORTS: Record<OpenTabSort, (a: SortableTab, b: SortableTab) => number> = {
+  strip: () => 0,
+  domain: (a, b) =>
+    getHostname(a.url).localeCompare(getHostname(b.url)) || (a.title ?? '').localeCompare(b.title ?? ''),
+  opened: (a, b) => a.openedAt - b.openedAt,
+  active: (a, b) => b.totalActiveTime - a.totalActiveTime,
+  lastUsed: (a, b) => (b.lastActivatedAt ?? 0) - (a.lastActivatedAt ?? 0),
+};
+
+// Open tabs in the given order, pinned tabs first as in the tab strip; ties
+// keep their tab strip order
+export const sortOpenTabs = <T extends SortableTab>(tabs: T[], sortBy: OpenTabSort): T[] =>
+  [...tabs].sort((a, b) =>
+    Number(!!b.pinned) - Number(!!a.pinned) || OPEN_TAB_SORTS[sortBy](a, b) || a.index - b.index
+  );
+
+// Items matching the query, best first; an empty query keeps the given order
+export const rankByFuzzyScore = <T>(items: T[], query: string, getTexts: (item: T) => string[]): T[] => {
+  if (!query.trim()) return items;
+  return items
+    .map((item) => {
+      const scores = getTexts(item)
+        .map((text) => fuzzyScore(text, query))
+        .filter((score): score is number => score !== null);
+      return { item, score: scores.length > 0 ? Math.max(...scores) : null };
+    })
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.item);
+};
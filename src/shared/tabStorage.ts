@@ -0,0 +1,37 @@
+// Storage layout of the records kept for open tabs. Each tab's timing and info
+// are stored under keys of their own, so a change to one tab rewrites only
+// that tab's record, and views can watch them for changes.
+export const TAB_IDS_KEY = 'trackedTabIds';
+
+// Ids of the open tabs showing an excluded site, so they stay excluded when
+// the service worker restarts
+export const EXCLUDED_TAB_IDS_KEY = 'excludedTabIds';
+
+const TIMING_PREFIX = 'tabTiming:';
+const INFO_PREFIX = 'tabInfo:';
+
+export const tabTimingKey = (tabId: number) => `${TIMING_PREFIX}${tabId}`;
+
+export const tabInfoKey = (tabId: number) => `${INFO_PREFIX}${tabId}`;
+
+// Id of the tab a record key belongs to, or null for any other key
+const getRecordTabId = (key: string): number | null => {
+  const prefix = [TIMING_PREFIX, INFO_PREFIX].find((p) => key.startsWith(p));
+  return prefix ? parseInt(key.slice(prefix.length)) : null;
+};
+
+// Call back with the ids of the tabs whose records were written; returns a
+// function that stops listening
+export const subscribeToTabRecords = (onChange: (tabIds: number[]) => void): (() => void) => {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    if (areaName !== 'local') return;
+    const tabIds = Object.keys(changes)
+      .map(getRecordTabId)
+      .filter((tabId): tabId is number => tabId !== null);
+    if (tabIds.length > 0) {
+      onChange([...new Set(tabIds)]);
+    }
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+};
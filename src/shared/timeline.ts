@@ -0,0 +1,22 @@
+// Per-page breakdown of a tab's focus intervals
+import type { ActiveInterval, PageVisit } from './types';
+
+export type PageTime = PageVisit & {
+  // When the tab moved on to the next page, or the end of the timeline
+  until: number;
+  activeTime: number;
+};
+
+const overlap = (interval: ActiveInterval, from: number, to: number): number =>
+  Math.max(0, Math.min(interval.end, to) - Math.max(interval.start, from));
+
+// Each visited page with the focused time spent on it before the next navigation
+export const getPageTimes = (pages: PageVisit[], intervals: ActiveInterval[], end: number): PageTime[] =>
+  pages.map((page, index) => {
+    const until = pages[index + 1]?.at ?? end;
+    return {
+      ...page,
+      until,
+      activeTime: intervals.reduce((sum, interval) => sum + overlap(interval, page.at, until), 0),
+    };
+  });
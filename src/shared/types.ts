@@ -0,0 +1,277 @@
+// Data shapes shared by the popup and the background worker
+
+// A period during which the system was idle or locked
+export type IdleInterval = {
+  start: number;
+  end: number;
+};
+
+// A period during which the tab was focused
+export type ActiveInterval = {
+  start: number;
+  end: number;
+};
+
+// A page the tab navigated to
+export type PageVisit = {
+  url: string;
+  title: string;
+  at: number;
+};
+
+// Timing data tracked per open tab
+export type TabTiming = {
+  openedAt: number;
+  totalActiveTime: number;
+  currentActiveTime?: number;
+  totalIdleTime?: number;
+  currentIdleTime?: number;
+  idleIntervals?: IdleInterval[];
+  lastActivatedAt?: number;
+  activeIntervals?: ActiveInterval[];
+  pages?: PageVisit[];
+  totalAudibleTime?: number;
+  currentAudibleTime?: number;
+};
+
+// Tab information captured while the tab is open (title, URL, favicon)
+export type TabInfo = {
+  title: string;
+  url: string;
+  favIconUrl?: string;
+  lastUpdated: number;
+  // Where the tab was when last updated, to recognise it after a restart
+  windowId?: number;
+  index?: number;
+  pinned?: boolean;
+};
+
+// Snapshot of a tab recorded when it is closed
+export type ClosedTabData = {
+  id: number;
+  historyId?: number; // Assigned by the history store
+  closedAt: number;
+  openedAt: number;
+  totalActiveTime: number;
+  totalTimeOpen: number;
+  totalIdleTime?: number;
+  title?: string;
+  url?: string;
+  favIconUrl?: string;
+  activeIntervals?: ActiveInterval[];
+  pages?: PageVisit[];
+  totalAudibleTime?: number;
+  // Where the tab was when it closed, to put it back in the same place
+  windowId?: number;
+  index?: number;
+  pinned?: boolean;
+};
+
+// How long closed tab history is kept
+export type RetentionPolicy = {
+  maxAgeDays: number;
+  maxEntries: number;
+};
+
+// Time window for the domain analytics dashboard
+export type AnalyticsRange = 'day' | 'week' | 'month';
+
+// Time aggregated for one hostname
+export type DomainStats = {
+  hostname: string;
+  activeTime: number;
+  openTime: number;
+  tabCount: number;
+  openTabCount: number;
+};
+
+// A tab saved in a workspace, in window order
+export type WorkspaceTab = {
+  url: string;
+  title: string;
+  pinned: boolean;
+};
+
+// A named snapshot of one or more browser windows
+export type Workspace = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  windows: { tabs: WorkspaceTab[] }[];
+};
+
+export type WorkspaceScope = 'all' | 'current';
+
+// Restore into new windows, or replace the tabs of the current window
+export type RestoreMode = 'newWindow' | 'replace';
+
+// Which URL differences are ignored when detecting duplicates
+export type UrlNormalization = {
+  ignoreHash: boolean;
+  ignoreTrackingParams: boolean;
+  ignoreTrailingSlash: boolean;
+};
+
+export type DuplicateSettings = UrlNormalization & {
+  autoFocusExisting: boolean;
+};
+
+// Open tabs sharing a normalized URL
+export type DuplicateGroup = {
+  url: string;
+  tabIds: number[];
+};
+
+// When the background worker treats the system as idle
+export type IdleSettings = {
+  thresholdSeconds: number;
+};
+
+// What happens to tabs on excluded sites: not tracked at all, or tracked
+// without their address, title or pages
+export type ExcludedTabMode = 'ignore' | 'anonymous';
+
+// How tabs are tracked and how often timing is saved and shown; see
+// shared/settings.ts for the ranges each field accepts
+export type TrackingSettings = {
+  saveIntervalSeconds: number;
+  trackBrowserPages: boolean;
+  dayStartHour: number;
+  popupRefreshSeconds: number;
+  trackingPaused: boolean;
+  // Comma-separated domain patterns, e.g. "*.mybank.com, intranet.example"
+  excludedDomains: string;
+  excludeIncognito: boolean;
+  excludedTabMode: ExcludedTabMode;
+  // Store addresses without their query string and #fragment
+  stripUrlDetails: boolean;
+};
+
+// What a rule does with a matching stale tab; "keep" protects it from all other rules
+export type RuleAction = 'discard' | 'close' | 'archive' | 'keep';
+
+// A user-defined rule for tabs left inactive on matching domains
+export type TabRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  domainPattern: string;
+  inactiveMinutes: number;
+  action: RuleAction;
+  exemptPinned: boolean;
+  exemptAudible: boolean;
+};
+
+// A tab a rule acted on
+export type RuleLogEntry = {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  action: Exclude<RuleAction, 'keep'>;
+  tabId: number;
+  title: string;
+  url: string;
+  at: number;
+};
+
+export type TabGroupColor = 'grey' | 'blue' | 'red' | 'yellow' | 'green' | 'pink' | 'purple' | 'cyan' | 'orange';
+
+// A native tab group with its member tabs and their combined active time
+export type TabGroupSummary = {
+  id: number;
+  windowId: number;
+  title: string;
+  color: TabGroupColor;
+  collapsed: boolean;
+  tabIds: number[];
+  activeTime: number;
+};
+
+// A search query kept for reuse; pinned ones show as chips in the toolbar
+export type SavedSearch = {
+  id: string;
+  name: string;
+  query: string;
+  pinned: boolean;
+};
+
+// Settings included in a backup, named after their storage keys; absent ones
+// were never changed from the defaults
+export type BackupSettings = {
+  historyRetention?: RetentionPolicy;
+  duplicateSettings?: DuplicateSettings;
+  idleSettings?: IdleSettings;
+  tabRules?: TabRule[];
+  savedSearches?: SavedSearch[];
+  domainBudgets?: DomainBudget[];
+  trackingSettings?: TrackingSettings;
+};
+
+// Versioned export of everything the extension stores
+export type BackupFile = {
+  format: 'tab-manager-backup';
+  version: number;
+  exportedAt: number;
+  tabTiming: Record<string, TabTiming>;
+  tabInfo: Record<string, TabInfo>;
+  closedTabs: ClosedTabData[];
+  workspaces: Workspace[];
+  settings: BackupSettings;
+};
+
+// Merge keeps existing entries the backup does not contain; replace drops them
+export type ImportMode = 'merge' | 'replace';
+
+export type ImportSection = 'tabTiming' | 'tabInfo' | 'closedTabs' | 'workspaces' | 'settings';
+
+// How many entries of one section an import adds, changes or removes
+export type ImportSectionSummary = {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+};
+
+export type ImportSummary = Record<ImportSection, ImportSectionSummary>;
+
+// Daily limit on active time for the domains matching a pattern
+export type DomainBudget = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  domainPattern: string;
+  minutesPerDay: number;
+  // Redirect matching tabs to a blocking page once the budget is used up
+  block: boolean;
+};
+
+// Today's use of a budget, including the active tab's uncommitted time
+export type BudgetStatus = {
+  budgetId: string;
+  usedMs: number;
+  limitMs: number;
+};
+
+// Kind of tab operation the undo log can reverse
+export type UndoKind = 'close' | 'move' | 'group' | 'pin' | 'mute';
+
+// How a tab was placed and set up before an operation changed it
+export type TabState = {
+  tabId: number;
+  url?: string;
+  windowId: number;
+  index: number;
+  pinned: boolean;
+  muted: boolean;
+  group?: { id: number; title?: string; color: TabGroupColor };
+};
+
+// One reversible tab operation in the undo log
+export type UndoEntry = {
+  id: string;
+  kind: UndoKind;
+  label: string;
+  at: number;
+  tabs: TabState[];
+};
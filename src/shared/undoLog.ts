@@ -0,0 +1,15 @@
+// The undo log lives in session storage, where the background worker writes
+// it and the popup watches it to offer undoing the latest operation
+export const UNDO_LOG_KEY = 'undoLog';
+
+// Call back whenever the undo log is written; returns a function that stops
+// listening
+export const subscribeToUndoLog = (onChange: () => void): (() => void) => {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    if (areaName === 'session' && UNDO_LOG_KEY in changes) {
+      onChange();
+    }
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { matchesDomainPattern, normalizeUrl } from './url';
+
+const ALL = { ignoreHash: true, ignoreTrackingParams: true, ignoreTrailingSlash: true };
+const NONE = { ignoreHash: false, ignoreTrackingParams: false, ignoreTrailingSlash: false };
+
+describe('normalizeUrl', () => {
+  it('drops the fragment only when asked', () => {
+    expect(normalizeUrl('https://example.com/docs#intro', ALL)).toBe('https://example.com/docs');
+    expect(normalizeUrl('https://example.com/docs#intro', NONE)).toBe('https://example.com/docs#intro');
+  });
+
+  it('drops utm_ and known click id parameters but keeps the rest in order', () => {
+    expect(normalizeUrl('https://example.com/p?id=4&utm_source=mail&UTM_Medium=x&fbclid=abc&page=2&gclid=1', ALL))
+      .toBe('https://example.com/p?id=4&page=2');
+    expect(normalizeUrl('https://example.com/p?utm_source=mail', ALL)).toBe('https://example.com/p');
+    expect(normalizeUrl('https://example.com/p?utm_source=mail', NONE)).toBe('https://example.com/p?utm_source=mail');
+  });
+
+  it('drops trailing slashes from paths but not the root', () => {
+    expect(normalizeUrl('https://example.com/docs/', ALL)).toBe('https://example.com/docs');
+    expect(normalizeUrl('https://example.com/docs//', ALL)).toBe('https://example.com/docs');
+    expect(normalizeUrl('https://example.com/', ALL)).toBe('https://example.com/');
+    expect(normalizeUrl('https://example.com/docs/', NONE)).toBe('https://example.com/docs/');
+  });
+
+  it('always ignores a leading www. and letter case in the host', () => {
+    expect(normalizeUrl('https://WWW.Example.com/Docs', NONE)).toBe('https://example.com/Docs');
+  });
+
+  it('returns unparsable URLs unchanged', () => {
+    expect(normalizeUrl('not a url', ALL)).toBe('not a url');
+  });
+});
+
+describe('matchesDomainPattern', () => {
+  it('matches an exact host only, ignoring a leading www. in the pattern', () => {
+    expect(matchesDomainPattern('example.com', 'example.com')).toBe(true);
+    expect(matchesDomainPattern('example.com', 'www.example.com')).toBe(true);
+    expect(matchesDomainPattern('mail.example.com', 'example.com')).toBe(false);
+    expect(matchesDomainPattern('notexample.com', 'example.com')).toBe(false);
+  });
+
+  it('matches a wildcard domain and all of its subdomains', () => {
+    expect(matchesDomainPattern('example.com', '*.example.com')).toBe(true);
+    expect(matchesDomainPattern('a.b.example.com', '*.example.com')).toBe(true);
+    expect(matchesDomainPattern('badexample.com', '*.example.com')).toBe(false);
+    expect(matchesDomainPattern('example.com.evil.net', '*.example.com')).toBe(false);
+  });
+
+  it('matches any entry of a comma-separated list, ignoring case and spaces', () => {
+    expect(matchesDomainPattern('localhost', ' Example.com ,localhost')).toBe(true);
+    expect(matchesDomainPattern('other.org', 'example.com, localhost')).toBe(false);
+  });
+
+  it('matches everything with * and nothing with an empty pattern', () => {
+    expect(matchesDomainPattern('anything.dev', '*')).toBe(true);
+    expect(matchesDomainPattern('anything.dev', '')).toBe(false);
+    expect(matchesDomainPattern('anything.dev', ' , ')).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+// URL helpers shared by the popup and the background worker
+import type { UrlNormalization } from './types';
+
+// Recorded in place of the address of a tab on an excluded site that is
+// counted anonymously; all such tabs share one hostname in insights
+export const EXCLUDED_URL = 'excluded:';
+export const EXCLUDED_HOSTNAME = '(excluded sites)';
+
+// Hostname without a leading "www.", or an empty string for unparsable URLs
+export const getHostname = (url?: string): string => {
+  try {
+    if (!url) return '';
+    if (url === EXCLUDED_URL) return EXCLUDED_HOSTNAME;
+    const hostname = new URL(url).hostname;
+    return hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+// Whether a hostname matches a comma-separated list of patterns such as
+// "localhost, *.example.com"; "*.example.com" also matches example.com itself
+export const matchesDomainPattern = (hostname: string, pattern: string): boolean =>
+  pattern
+    .split(',')
+    .map((part) => part.trim().toLowerCase().replace(/^www\./, ''))
+    .filter(Boolean)
+    .some((part) => {
+      if (part === '*') return true;
+      if (part.startsWith('*.')) {
+        const domain = part.slice(2);
+        return hostname === domain || hostname.endsWith('.' + domain);
+      }
+      return hostname === part;
+    });
+
+// The URL without its query string and fragment; unparsable URLs are
+// returned as-is
+export const stripUrlDetails = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    parsed.search = '';
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+};
+
+const TRACKING_PARAMS = new Set(['fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'igshid', 'mc_cid', 'mc_eid', 'ref_src', '_ga']);
+
+const isTrackingParam = (name: string): boolean =>
+  name.toLowerCase().startsWith('utm_') || TRACKING_PARAMS.has(name.toLowerCase());
+
+// Canonical form of a URL for comparison; unparsable URLs are returned as-is
+export const normalizeUrl = (url: string, options: UrlNormalization): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  if (options.ignoreHash) {
+    parsed.hash = '';
+  }
+  if (options.ignoreTrackingParams) {
+    [...parsed.searchParams.keys()].filter(isTrackingParam).forEach((name) => parsed.searchParams.delete(name));
+  }
+  parsed.hostname = parsed.hostname.replace(/^www\./, '');
+  if (options.ignoreTrailingSlash && parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+  return parsed.toString();
+};
@@ -8,6 +8,12 @@ declare namespace chrome {
             favIconUrl?: string;
             windowId: number;
             active: boolean;
+            pinned: boolean;
+            audible?: boolean;
+            discarded?: boolean;
+            mutedInfo?: { muted: boolean; reason?: string };
+            groupId: number;
+            incognito?: boolean;
         }
         
         interface TabChangeInfo {
@@ -24,6 +30,23 @@ declare namespace chrome {
             tabId: number;
             windowId: number;
         }
+
+        interface UpdateProperties {
+            active?: boolean;
+            highlighted?: boolean;
+            url?: string;
+            selected?: boolean;
+            pinned?: boolean;
+            muted?: boolean;
+        }
+
+        interface CreateProperties {
+            url?: string;
+            active?: boolean;
+            index?: number;
+            windowId?: number;
+            pinned?: boolean;
+        }
         
         function query(
             queryInfo: Record<string, unknown>,
@@ -31,28 +54,49 @@ declare namespace chrome {
         ): void;
         function remove(tabId: number | number[], callback?: () => void): void;
         function move(
-            tabId: number | number[],
+            tabId: number,
             moveProperties: { index: number; windowId?: number },
             callback?: (tab: Tab) => void
         ): void;
+        function move(
+            tabIds: number[],
+            moveProperties: { index: number; windowId?: number },
+            callback?: (tabs: Tab[]) => void
+        ): void;
         function update(
             tabId: number,
-            updateProperties: { active?: boolean; highlighted?: boolean; url?: string; selected?: boolean; pinned?: boolean; muted?: boolean },
+            updateProperties: UpdateProperties,
             callback?: (tab: Tab) => void
         ): void;
         function get(tabId: number, callback: (tab: Tab) => void): void;
+        function create(createProperties: CreateProperties, callback?: (tab: Tab) => void): void;
+        function discard(tabId: number, callback?: (tab?: Tab) => void): void;
+        function group(
+            options: { tabIds: number | number[]; groupId?: number; createProperties?: { windowId?: number } },
+            callback?: (groupId: number) => void
+        ): void;
+        function ungroup(tabIds: number | number[], callback?: () => void): void;
         
         // Event listeners
         const onUpdated: chrome.events.Event<(tabId: number, changeInfo: TabChangeInfo, tab: Tab) => void>;
         const onActivated: chrome.events.Event<(activeInfo: TabActiveInfo) => void>;
+        const onCreated: chrome.events.Event<(tab: Tab) => void>;
+        const onReplaced: chrome.events.Event<(addedTabId: number, removedTabId: number) => void>;
         const onRemoved: chrome.events.Event<(tabId: number, removeInfo: { windowId: number; isWindowClosing: boolean }) => void>;
+        const onMoved: chrome.events.Event<(tabId: number, moveInfo: { windowId: number; fromIndex: number; toIndex: number }) => void>;
+        const onAttached: chrome.events.Event<(tabId: number, attachInfo: { newWindowId: number; newPosition: number }) => void>;
+        const onDetached: chrome.events.Event<(tabId: number, detachInfo: { oldWindowId: number; oldPosition: number }) => void>;
     }
     namespace runtime {
         const lastError: { message: string } | undefined;
         function sendMessage(message: Record<string, unknown>, responseCallback?: (response: unknown) => void): void;
-        const onMessage: chrome.events.Event<(message: Record<string, unknown>, sender: Record<string, unknown>, sendResponse: (response?: Record<string, unknown>) => void) => void>;
+        const onMessage: chrome.events.Event<(message: Record<string, unknown>, sender: Record<string, unknown>, sendResponse: (response?: unknown) => void) => boolean | void>;
         const onStartup: chrome.events.Event<() => void>;
         const onInstalled: chrome.events.Event<() => void>;
+        function getURL(path: string): string;
+        function openOptionsPage(callback?: () => void): void;
+        // Fired just before the service worker is shut down
+        const onSuspend: chrome.events.Event<() => void>;
     }
     namespace events {
         interface Event<T extends (...args: unknown[]) => void> {
@@ -61,13 +105,146 @@ declare namespace chrome {
         }
     }
     namespace storage {
+        interface StorageChange {
+            oldValue?: unknown;
+            newValue?: unknown;
+        }
+
+        const onChanged: chrome.events.Event<(changes: Record<string, StorageChange>, areaName: string) => void>;
+
         namespace local {
             function get(keys: string | string[] | Record<string, unknown> | null, callback: (items: Record<string, unknown>) => void): void;
             function set(items: Record<string, unknown>, callback?: () => void): void;
+            function remove(keys: string | string[], callback?: () => void): void;
+        }
+        // Kept in memory and cleared when the browser restarts
+        namespace session {
+            function get(keys: string | string[] | Record<string, unknown> | null, callback: (items: Record<string, unknown>) => void): void;
+            function set(items: Record<string, unknown>, callback?: () => void): void;
+            function remove(keys: string | string[], callback?: () => void): void;
+        }
+    }
+    namespace idle {
+        type IdleState = 'active' | 'idle' | 'locked';
+
+        function setDetectionInterval(intervalInSeconds: number): void;
+        function queryState(detectionIntervalInSeconds: number, callback: (newState: IdleState) => void): void;
+        const onStateChanged: chrome.events.Event<(newState: IdleState) => void>;
+    }
+    namespace tabGroups {
+        type Color = 'grey' | 'blue' | 'red' | 'yellow' | 'green' | 'pink' | 'purple' | 'cyan' | 'orange';
+
+        interface TabGroup {
+            id: number;
+            windowId: number;
+            title?: string;
+            color: Color;
+            collapsed: boolean;
+        }
+
+        interface UpdateProperties {
+            title?: string;
+            color?: Color;
+            collapsed?: boolean;
         }
+
+        const TAB_GROUP_ID_NONE: number;
+        function query(queryInfo: Record<string, unknown>, callback: (groups: TabGroup[]) => void): void;
+        function update(groupId: number, updateProperties: UpdateProperties, callback?: (group?: TabGroup) => void): void;
+        function move(groupId: number, moveProperties: { index: number; windowId?: number }, callback?: (group?: TabGroup) => void): void;
+    }
+    namespace bookmarks {
+        interface BookmarkTreeNode {
+            id: string;
+            parentId?: string;
+            title: string;
+            url?: string;
+            children?: BookmarkTreeNode[];
+        }
+
+        interface CreateDetails {
+            parentId?: string;
+            title?: string;
+            url?: string;
+        }
+
+        function create(bookmark: CreateDetails, callback?: (result: BookmarkTreeNode) => void): void;
+        function search(query: string | { title?: string; url?: string }, callback: (results: BookmarkTreeNode[]) => void): void;
     }
     namespace windows {
+        interface Window {
+            id?: number;
+            focused: boolean;
+            type?: string;
+            tabs?: chrome.tabs.Tab[];
+        }
+
+        interface CreateData {
+            url?: string | string[];
+            tabId?: number;
+            focused?: boolean;
+            type?: string;
+        }
+
         const WINDOW_ID_NONE: number;
+        function create(createData: CreateData, callback?: (window: Window) => void): void;
+        function getLastFocused(queryOptions: { populate?: boolean }, callback: (window: Window) => void): void;
+        function getCurrent(queryOptions: { populate?: boolean }, callback: (window: Window) => void): void;
+        function getAll(queryOptions: { populate?: boolean; windowTypes?: string[] }, callback: (windows: Window[]) => void): void;
+        function update(windowId: number, updateInfo: { focused?: boolean }, callback?: (window: Window) => void): void;
         const onFocusChanged: chrome.events.Event<(windowId: number) => void>;
     }
-}
\ No newline at end of file
+    namespace action {
+        function setBadgeText(details: { text: string; tabId?: number }, callback?: () => void): void;
+        function setBadgeBackgroundColor(details: { color: string; tabId?: number }, callback?: () => void): void;
+        function setTitle(details: { title: string; tabId?: number }, callback?: () => void): void;
+    }
+    namespace alarms {
+        interface Alarm {
+            name: string;
+            scheduledTime: number;
+            periodInMinutes?: number;
+        }
+
+        function create(name: string, alarmInfo: { when?: number; delayInMinutes?: number; periodInMinutes?: number }): void;
+        function get(name: string, callback: (alarm?: Alarm) => void): void;
+        const onAlarm: chrome.events.Event<(alarm: Alarm) => void>;
+    }
+    namespace commands {
+        const onCommand: chrome.events.Event<(command: string) => void>;
+    }
+    namespace omnibox {
+        interface SuggestResult {
+            content: string;
+            description: string; // XML: text with <match>, <dim> and <url> markup
+            deletable?: boolean;
+        }
+
+        type OnInputEnteredDisposition = 'currentTab' | 'newForegroundTab' | 'newBackgroundTab';
+
+        const onInputChanged: chrome.events.Event<(text: string, suggest: (suggestResults: SuggestResult[]) => void) => void>;
+        const onInputEntered: chrome.events.Event<(text: string, disposition: OnInputEnteredDisposition) => void>;
+        function setDefaultSuggestion(suggestion: { description: string }): void;
+    }
+    namespace sessions {
+        interface Session {
+            lastModified: number; // Seconds since the epoch
+            tab?: chrome.tabs.Tab & { sessionId?: string };
+            window?: chrome.windows.Window & { sessionId?: string };
+        }
+
+        function getRecentlyClosed(filter: { maxResults?: number }, callback: (sessions: Session[]) => void): void;
+        function restore(sessionId: string, callback?: (restoredSession: Session) => void): void;
+    }
+    namespace notifications {
+        interface NotificationOptions {
+            type: 'basic';
+            iconUrl: string;
+            title: string;
+            message: string;
+            priority?: number;
+        }
+
+        function create(notificationId: string, options: NotificationOptions, callback?: (notificationId: string) => void): void;
+    }
+}
@@ -4,4 +4,18 @@ import react from '@vitejs/plugin-react';
 export default defineConfig({
   plugins: [react()],
   assetsInclude: ['**/*.png', '**/*.json'],
-});
\ No newline at end of file
+  build: {
+    rollupOptions: {
+      input: {
+        popup: 'index.html',
+        blocked: 'blocked.html',
+        options: 'options.html',
+        background: 'src/background/index.ts',
+      },
+      output: {
+        // The manifest references the service worker by a fixed name
+        entryFileNames: (chunk) => (chunk.name === 'background' ? 'background.js' : 'assets/[name]-[hash].js'),
+      },
+    },
+  },
+});